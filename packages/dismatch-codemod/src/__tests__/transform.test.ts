@@ -0,0 +1,296 @@
+import { describe, it, expect } from 'vitest';
+import { resolve } from 'node:path';
+import ts from 'typescript';
+import { transform } from '../index';
+
+const shape = `type Shape =
+  | { type: 'circle'; radius: number }
+  | { type: 'square'; side: number }
+  | { type: 'triangle'; base: number; height: number };
+`;
+
+/** Type-checks `code` with `dismatch` resolved to the library source in this repository. */
+function diagnostics(code: string) {
+  const fileName = resolve(__dirname, 'converted.ts');
+  const options: ts.CompilerOptions = {
+    strict: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.Preserve,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    types: [],
+    paths: { dismatch: [resolve(__dirname, '../../../../src/index.ts')] },
+  };
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile, fileExists } = host;
+  host.getSourceFile = (name, ...rest) =>
+    name === fileName
+      ? ts.createSourceFile(name, code, ts.ScriptTarget.ES2022)
+      : getSourceFile(name, ...rest);
+  host.fileExists = (name) => name === fileName || fileExists(name);
+  const program = ts.createProgram([fileName], options, host);
+  return ts
+    .getPreEmitDiagnostics(program, program.getSourceFile(fileName))
+    .map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+describe('transform', () => {
+  it('should convert an exhaustive switch into match', () => {
+    const { text, converted, skipped } = transform(`${shape}
+export function area(shape: Shape): number {
+  switch (shape.type) {
+    case 'circle':
+      return Math.PI * shape.radius ** 2;
+    case 'square': {
+      // squares are easy
+      const side = shape.side;
+      return side * side;
+    }
+    case 'triangle':
+      return (shape.base *
+        shape.height) / 2;
+  }
+}
+`);
+
+    expect(converted).toBe(1);
+    expect(skipped).toEqual([]);
+    expect(text).toBe(`import { match } from 'dismatch';
+
+${shape}
+export function area(shape: Shape): number {
+  return match(shape)({
+    circle: (shape) => Math.PI * shape.radius ** 2,
+    square: (shape) => {
+      // squares are easy
+      const side = shape.side;
+      return side * side;
+    },
+    triangle: (shape) => (shape.base *
+      shape.height) / 2,
+  });
+}
+`);
+    expect(diagnostics(text)).toEqual([]);
+  });
+
+  it('should convert a switch with a default branch into matchWithDefault', () => {
+    const { text } = transform(`import { isUnion } from 'dismatch';
+${shape}
+export const label = (shape: Shape) => {
+  switch (shape.type) {
+    case 'circle':
+      return { name: 'round' };
+    default:
+      return { name: 'other' };
+  }
+};
+`);
+
+    expect(text).toContain(
+      `import { isUnion, matchWithDefault } from 'dismatch';`,
+    );
+    expect(text).toContain(`  return matchWithDefault(shape)({
+    circle: () => ({ name: 'round' }),
+    Default: () => ({ name: 'other' }),
+  });`);
+    expect(diagnostics(text)).toEqual([]);
+  });
+
+  it('should give grouped cases the same handler and drop a default that cannot run', () => {
+    const { text } = transform(`${shape}
+declare function assertNever(value: never): never;
+
+export function sides(shape: Shape) {
+  switch (shape.type) {
+    case 'circle':
+      throw new Error('A circle has no sides');
+    case 'square':
+    case 'triangle':
+      return shape.type.length;
+    default:
+      return assertNever(shape);
+  }
+}
+`);
+
+    expect(text).toContain(`  return match(shape)({
+    circle: () => {
+      throw new Error('A circle has no sides');
+    },
+    square: (shape) => shape.type.length,
+    triangle: (shape) => shape.type.length,
+  });`);
+    expect(diagnostics(text)).toEqual([]);
+  });
+
+  it('should pass a custom discriminant and keep the file quote style', () => {
+    const { text } = transform(`import { isUnion } from "dismatch";
+type Job = { status: "queued" } | { status: "in-progress"; pct: number };
+
+function progress(job: Job) {
+  switch (job["status"]) {
+    case "queued":
+      return 0;
+    case "in-progress":
+      return job.pct;
+  }
+}
+`);
+
+    expect(text).toContain(`import { isUnion, match } from "dismatch";`);
+    expect(text).toContain(`  return match(job, "status")({
+    queued: () => 0,
+    "in-progress": (job) => job.pct,
+  });`);
+    expect(diagnostics(text)).toEqual([]);
+  });
+
+  it('should convert nested switches together', () => {
+    const { text, converted } = transform(`${shape}
+type Mode = { kind: 'fill' } | { kind: 'stroke'; width: number };
+
+export function cost(shape: Shape, mode: Mode) {
+  switch (mode.kind) {
+    case 'fill':
+      switch (shape.type) {
+        case 'circle':
+          return shape.radius;
+        default:
+          return 1;
+      }
+    case 'stroke':
+      return mode.width;
+  }
+}
+`);
+
+    expect(converted).toBe(2);
+    expect(text).toContain(
+      `import { match, matchWithDefault } from 'dismatch';`,
+    );
+    expect(text).toContain(`  return match(mode, 'kind')({
+    fill: () => {
+      return matchWithDefault(shape)({
+        circle: (shape) => shape.radius,
+        Default: () => 1,
+      });
+    },
+    stroke: (mode) => mode.width,
+  });`);
+    expect(diagnostics(text)).toEqual([]);
+  });
+
+  it('should report the switches it cannot convert and leave them unchanged', () => {
+    const code = `${shape}
+function log(shape: Shape) {
+  switch (shape.type) {
+    case 'circle':
+      console.log('circle');
+      break;
+    default:
+      return;
+  }
+}
+
+function fallThrough(shape: Shape) {
+  switch (shape.type) {
+    case 'circle':
+      console.log('circle');
+    case 'square':
+    case 'triangle':
+      return 1;
+  }
+}
+
+function partial(shape: Shape) {
+  switch (shape.type) {
+    case 'circle':
+      return 1;
+  }
+  return 0;
+}
+
+function first(all: Shape[]) {
+  switch (all[0].type) {
+    case 'circle':
+      return all[0].radius;
+    default:
+      return 0;
+  }
+}
+
+async function load(shape: Shape) {
+  switch (shape.type) {
+    case 'circle':
+      return await Promise.resolve(1);
+    default:
+      return 0;
+  }
+}
+
+function count(all: Shape[]) {
+  for (const shape of all) {
+    switch (shape.type) {
+      case 'circle':
+        continue;
+      default:
+        return 0;
+    }
+  }
+}
+`;
+    const { text, converted, skipped } = transform(code);
+
+    expect(converted).toBe(0);
+    expect(text).toBe(code);
+    expect(skipped.map(({ line, reason }) => [line, reason])).toEqual([
+      [7, 'a case has side effects only and does not return'],
+      [17, 'a case falls through to the next one'],
+      [27, 'the cases do not handle every variant and there is no default'],
+      [
+        35,
+        'a case refers to the switch expression; assign it to a variable first',
+      ],
+      [44, 'a case uses await'],
+      [54, 'a case continues an enclosing loop'],
+    ]);
+  });
+
+  it('should leave switches that are not on a discriminant alone', () => {
+    const code = `declare const status: 'idle' | 'done';
+declare const user: { role: string };
+switch (status) {
+  case 'idle':
+    break;
+}
+switch (user.role) {
+  default:
+}
+`;
+
+    expect(transform(code)).toEqual({ text: code, converted: 0, skipped: [] });
+  });
+
+  it('should not shadow a match that is declared in the file', () => {
+    const { skipped } = transform(`${shape}
+const match = (value: unknown) => value;
+function f(shape: Shape) {
+  switch (shape.type) {
+    case 'circle':
+    case 'square':
+    case 'triangle':
+      return 1;
+  }
+}
+`);
+
+    expect(skipped).toEqual([
+      {
+        line: 8,
+        column: 3,
+        reason: "'match' is already declared in this file",
+      },
+    ]);
+  });
+});
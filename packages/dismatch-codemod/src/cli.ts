@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+import { writeFileSync } from 'node:fs';
+import { relative } from 'node:path';
+import { transformProject } from './index';
+
+const USAGE = `Usage: dismatch-codemod [files...] [--project <tsconfig.json>] [--dry-run]
+
+Rewrites switch statements on the discriminant of a union into match (every
+variant handled) or matchWithDefault (with a default branch) from dismatch, and
+adds the import. Switches that cannot be converted safely are listed with the
+reason and left unchanged.
+
+Options:
+  --project <file>  TypeScript config of the project (default: tsconfig.json)
+  --dry-run         Report what would change; write nothing`;
+
+function parseArgs(args: string[]) {
+  const options = { project: 'tsconfig.json', dryRun: false, help: false };
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help') options.help = true;
+    else if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--project') {
+      if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+      options.project = args[++i];
+    } else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else files.push(arg);
+  }
+  return { ...options, files };
+}
+
+function run(args: string[]): number {
+  const options = parseArgs(args);
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const results = transformProject(options.project, options.files);
+  let converted = 0;
+  let skipped = 0;
+  let changed = 0;
+  for (const result of results) {
+    const file = relative(process.cwd(), result.fileName);
+    if (result.converted) {
+      changed++;
+      converted += result.converted;
+      console.log(`${file}: converted ${result.converted}`);
+      if (!options.dryRun) writeFileSync(result.fileName, result.text);
+    }
+    for (const { line, column, reason } of result.skipped) {
+      skipped++;
+      console.log(`${file}:${line}:${column}: skipped, ${reason}`);
+    }
+  }
+
+  console.log(
+    `\n${options.dryRun ? 'Would convert' : 'Converted'} ${converted} switch${converted === 1 ? '' : 'es'} in ${changed} file${changed === 1 ? '' : 's'}; skipped ${skipped}.`,
+  );
+  return 0;
+}
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (err) {
+  console.error(`dismatch-codemod: ${(err as Error).message}\n\n${USAGE}`);
+  process.exitCode = 2;
+}
@@ -0,0 +1,83 @@
+import ts from 'typescript';
+import { transformSourceFile, TransformResult } from './transform';
+
+export { transformSourceFile };
+export type { Skipped, TransformResult } from './transform';
+
+export type FileResult = TransformResult & { fileName: string };
+
+/**
+ * Transforms a single piece of source code, type-checked on its own with strict settings.
+ *
+ * @param code - TypeScript source
+ * @param fileName - Name of the virtual file, `file.ts` by default
+ * @returns The new text and a summary of converted and skipped switches
+ */
+export function transform(code: string, fileName = 'file.ts') {
+  const options: ts.CompilerOptions = {
+    strict: true,
+    target: ts.ScriptTarget.ES2022,
+    noEmit: true,
+  };
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile, fileExists, readFile } = host;
+  const file = ts.createSourceFile(
+    fileName,
+    code,
+    ts.ScriptTarget.ES2022,
+    true,
+  );
+  host.getSourceFile = (name, ...rest) =>
+    name === fileName ? file : getSourceFile(name, ...rest);
+  host.fileExists = (name) => name === fileName || fileExists(name);
+  host.readFile = (name) => (name === fileName ? code : readFile(name));
+
+  const program = ts.createProgram([fileName], options, host);
+  return transformSourceFile(file, program.getTypeChecker());
+}
+
+/**
+ * Transforms the files of a TypeScript project.
+ *
+ * @param project - Path to a `tsconfig.json`
+ * @param files - Only transform these files; every source file of the project by default
+ * @returns One result per transformed file, including files without switches to convert
+ * @throws {Error} If the config cannot be read or a file is not part of the project
+ */
+export function transformProject(project: string, files: string[] = []) {
+  const config = ts.readConfigFile(project, ts.sys.readFile);
+  if (config.error) {
+    throw new Error(
+      ts.flattenDiagnosticMessageText(config.error.messageText, '\n'),
+    );
+  }
+  const parsed = ts.parseJsonConfigFileContent(
+    config.config,
+    ts.sys,
+    ts.sys.resolvePath(project).replace(/[^/\\]*$/, ''),
+  );
+  const program = ts.createProgram(parsed.fileNames, parsed.options);
+  const checker = program.getTypeChecker();
+
+  const sourceFiles = files.length
+    ? files.map((file) => {
+        const sourceFile = program.getSourceFile(ts.sys.resolvePath(file));
+        if (!sourceFile) {
+          throw new Error(`${file} is not part of the project ${project}`);
+        }
+        return sourceFile;
+      })
+    : program
+        .getSourceFiles()
+        .filter(
+          (sourceFile) =>
+            !sourceFile.isDeclarationFile &&
+            !program.isSourceFileFromExternalLibrary(sourceFile) &&
+            !sourceFile.fileName.includes('/node_modules/'),
+        );
+
+  return sourceFiles.map((sourceFile): FileResult => ({
+    fileName: sourceFile.fileName,
+    ...transformSourceFile(sourceFile, checker),
+  }));
+}
@@ -0,0 +1,453 @@
+import ts from 'typescript';
+
+/** A `switch` on a discriminant that was left as is, and why. */
+export type Skipped = { line: number; column: number; reason: string };
+
+export type TransformResult = {
+  /** The new source text, identical to the input when nothing was converted. */
+  text: string;
+  converted: number;
+  skipped: Skipped[];
+};
+
+type Label = string | number | boolean;
+
+type Discriminant = {
+  subject: ts.Expression;
+  key: string;
+  optional: boolean;
+  values: Label[];
+};
+
+type Group = {
+  labels: Label[];
+  fallback: boolean;
+  statements: readonly ts.Statement[];
+  clause: ts.CaseOrDefaultClause;
+};
+
+type Edit = { start: number; end: number; text: string };
+
+const UNIT =
+  ts.TypeFlags.StringLiteral |
+  ts.TypeFlags.NumberLiteral |
+  ts.TypeFlags.BooleanLiteral |
+  ts.TypeFlags.EnumLiteral;
+
+const MODULE = 'dismatch';
+
+function discriminantOf(
+  node: ts.SwitchStatement,
+  checker: ts.TypeChecker,
+): Discriminant | undefined {
+  let expression = node.expression;
+  while (ts.isParenthesizedExpression(expression)) {
+    expression = expression.expression;
+  }
+
+  let key: string;
+  if (ts.isPropertyAccessExpression(expression)) key = expression.name.text;
+  else if (
+    ts.isElementAccessExpression(expression) &&
+    ts.isStringLiteralLike(expression.argumentExpression)
+  ) {
+    key = expression.argumentExpression.text;
+  } else return undefined;
+
+  const type = checker.getTypeAtLocation(expression.expression);
+  const members = (type.isUnion() ? type.types : [type]).filter(
+    (member) => !(member.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)),
+  );
+  if (members.length < 2) return undefined;
+
+  const values: Label[] = [];
+  for (const member of members) {
+    const property = member.getProperty(key);
+    if (!property) return undefined;
+    const value = checker.getTypeOfSymbolAtLocation(property, expression);
+    if (!(value.flags & UNIT)) return undefined;
+    values.push(
+      value.isLiteral()
+        ? (value.value as string | number)
+        : checker.typeToString(value) === 'true',
+    );
+  }
+
+  return {
+    subject: expression.expression,
+    key,
+    optional: !!expression.questionDotToken,
+    values,
+  };
+}
+
+function label(expression: ts.Expression): Label | undefined {
+  if (ts.isStringLiteralLike(expression)) return expression.text;
+  if (ts.isNumericLiteral(expression)) return Number(expression.text);
+  if (expression.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (expression.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (
+    ts.isPrefixUnaryExpression(expression) &&
+    expression.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(expression.operand)
+  ) {
+    return -Number(expression.operand.text);
+  }
+  return undefined;
+}
+
+function stringLiteral(value: string, quote: string) {
+  const escaped = value.replace(/\\/g, '\\\\').replaceAll(quote, `\\${quote}`);
+  return `${quote}${escaped}${quote}`;
+}
+
+function propertyKey(value: Label, quote: string) {
+  return typeof value === 'string' && !/^[A-Za-z_$][\w$]*$/.test(value)
+    ? stringLiteral(value, quote)
+    : String(value);
+}
+
+/** The first construct in `statements` that cannot move into a handler function. */
+function escape(statements: readonly ts.Statement[]): string | undefined {
+  let reason: string | undefined;
+  const visit = (node: ts.Node, loop: boolean, inSwitch: boolean): void => {
+    if (reason || ts.isFunctionLike(node) || ts.isClassLike(node)) return;
+    if (ts.isBreakStatement(node) && (node.label || !(loop || inSwitch))) {
+      reason = 'a case breaks out of the switch before returning';
+    } else if (ts.isContinueStatement(node) && (node.label || !loop)) {
+      reason = 'a case continues an enclosing loop';
+    } else if (ts.isAwaitExpression(node) || ts.isYieldExpression(node)) {
+      reason = `a case uses ${ts.isAwaitExpression(node) ? 'await' : 'yield'}`;
+    }
+    const isLoop = ts.isIterationStatement(node, false);
+    ts.forEachChild(node, (child) =>
+      visit(child, loop || isLoop, inSwitch || ts.isSwitchStatement(node)),
+    );
+  };
+  statements.forEach((statement) => visit(statement, false, false));
+  return reason;
+}
+
+function references(
+  statements: readonly ts.Statement[],
+  matches: (node: ts.Node) => boolean,
+) {
+  let found: ts.Node | undefined;
+  const visit = (node: ts.Node): void => {
+    if (found) return;
+    if (matches(node)) found = node;
+    else ts.forEachChild(node, visit);
+  };
+  statements.forEach(visit);
+  return found;
+}
+
+function isAssignment(node: ts.Node) {
+  const parent = node.parent;
+  return (
+    (ts.isBinaryExpression(parent) &&
+      parent.left === node &&
+      parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+      parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment) ||
+    ((ts.isPrefixUnaryExpression(parent) ||
+      ts.isPostfixUnaryExpression(parent)) &&
+      (parent.operator === ts.SyntaxKind.PlusPlusToken ||
+        parent.operator === ts.SyntaxKind.MinusMinusToken))
+  );
+}
+
+/**
+ * Converts every `switch` on the discriminant of a union in `sourceFile` into `match` — when
+ * the cases cover every variant — or `matchWithDefault` when a `default:` handles the rest,
+ * and adds the import. A switch is only converted when each case ends in `return` or `throw`;
+ * the others are reported in `skipped` with the reason.
+ *
+ * @param sourceFile - A source file of the program `checker` belongs to
+ * @param checker - Used to recognise discriminated unions and their variants
+ * @returns The new text and a summary of converted and skipped switches
+ */
+export function transformSourceFile(
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+): TransformResult {
+  const source = sourceFile.text;
+  let edits: Edit[] = [];
+  const skipped: Skipped[] = [];
+  const used = new Set<string>();
+  let converted = 0;
+  /** Converted switches, which now always return or throw. */
+  const terminating = new Set<ts.Node>();
+  const terminates = (statement: ts.Statement | undefined) =>
+    !!statement &&
+    (ts.isReturnStatement(statement) ||
+      ts.isThrowStatement(statement) ||
+      terminating.has(statement));
+
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const quote =
+    imports[0] &&
+    source[imports[0].moduleSpecifier.getStart(sourceFile)] === '"'
+      ? '"'
+      : "'";
+  const fromDismatch = new Set(
+    imports
+      .filter(
+        (declaration) =>
+          ts.isStringLiteral(declaration.moduleSpecifier) &&
+          declaration.moduleSpecifier.text === MODULE,
+      )
+      .flatMap((declaration) => {
+        const bindings = declaration.importClause?.namedBindings;
+        return bindings && ts.isNamedImports(bindings)
+          ? bindings.elements.map((element) => element.name.text)
+          : [];
+      }),
+  );
+  const declared = new Set(
+    checker
+      .getSymbolsInScope(sourceFile, ts.SymbolFlags.Value)
+      .map((symbol) => symbol.name),
+  );
+
+  /** `source` between `start` and `end`, with the edits of nested switches applied. */
+  const slice = (start: number, end: number) => {
+    const inner = edits.filter((e) => e.start >= start && e.end <= end);
+    edits = edits.filter((e) => !inner.includes(e));
+    let text = '';
+    let position = start;
+    for (const edit of inner.sort((a, b) => a.start - b.start)) {
+      text += source.slice(position, edit.start) + edit.text;
+      position = edit.end;
+    }
+    return text + source.slice(position, end);
+  };
+
+  const columnOf = (position: number) =>
+    position - (source.lastIndexOf('\n', position - 1) + 1);
+
+  const indentOf = (position: number) => {
+    const lineStart = source.lastIndexOf('\n', position - 1) + 1;
+    return /^[ \t]*/.exec(source.slice(lineStart))![0];
+  };
+
+  /** Re-indents `text`, whose first line started at `column`, to `indent`. */
+  const reindent = (text: string, column: number, indent: string) =>
+    text
+      .split('\n')
+      .map((line, i) => {
+        if (i === 0) return indent + line;
+        const strip = Math.min(column, /^[ \t]*/.exec(line)![0].length);
+        return line.trim() ? indent + line.slice(strip) : '';
+      })
+      .join('\n');
+
+  const convert = (node: ts.SwitchStatement, d: Discriminant) => {
+    if (d.optional) return 'the switch expression uses optional chaining';
+
+    const groups: Group[] = [];
+    let labels: Label[] = [];
+    let fallback = false;
+    const { clauses } = node.caseBlock;
+    for (const [i, clause] of clauses.entries()) {
+      if (ts.isDefaultClause(clause)) fallback = true;
+      else {
+        const value = label(clause.expression);
+        if (value === undefined) return 'a case label is not a literal';
+        if (!d.values.includes(value)) {
+          return `case ${JSON.stringify(value)} is not a variant of the union`;
+        }
+        labels.push(value);
+      }
+      if (!clause.statements.length && i < clauses.length - 1) continue;
+
+      const [only] = clause.statements;
+      const statements =
+        clause.statements.length === 1 && ts.isBlock(only)
+          ? only.statements
+          : clause.statements;
+      const last = statements[statements.length - 1];
+      if (last && ts.isContinueStatement(last)) {
+        return 'a case continues an enclosing loop';
+      }
+      if (!terminates(last)) {
+        const ends =
+          !last || ts.isBreakStatement(last) || i === clauses.length - 1;
+        return ends
+          ? 'a case has side effects only and does not return'
+          : 'a case falls through to the next one';
+      }
+      const reason = escape(statements);
+      if (reason) return reason;
+
+      groups.push({ labels, fallback, statements, clause });
+      labels = [];
+      fallback = false;
+    }
+
+    const handled = new Set(groups.flatMap((group) => group.labels));
+    const exhaustive = d.values.every((value) => handled.has(value));
+    const hasDefault = groups.some((group) => group.fallback);
+    if (!exhaustive && !hasDefault) {
+      return 'the cases do not handle every variant and there is no default';
+    }
+    const fn = exhaustive ? 'match' : 'matchWithDefault';
+    if (declared.has(fn) && !fromDismatch.has(fn)) {
+      return `'${fn}' is already declared in this file`;
+    }
+
+    const subject = d.subject;
+    const symbol = ts.isIdentifier(subject)
+      ? checker.getSymbolAtLocation(subject)
+      : undefined;
+    const refersToSubject = (node: ts.Node) =>
+      symbol
+        ? ts.isIdentifier(node) && checker.getSymbolAtLocation(node) === symbol
+        : ts.isExpression(node) &&
+          node.getText(sourceFile) === subject.getText(sourceFile);
+
+    const prepared: { group: Group; names: string[]; parameter: string }[] = [];
+    for (const group of groups) {
+      if (group.fallback && exhaustive && !group.labels.length) continue;
+      const names =
+        group.fallback && !exhaustive
+          ? ['Default']
+          : group.labels.map((value) => propertyKey(value, quote));
+
+      let parameter = '';
+      if (references(group.statements, refersToSubject)) {
+        if (!symbol) {
+          return 'a case refers to the switch expression; assign it to a variable first';
+        }
+        if (names[0] === 'Default') {
+          return 'the default case refers to the switched variable';
+        }
+        const assigned = (n: ts.Node) => refersToSubject(n) && isAssignment(n);
+        if (references(group.statements, assigned)) {
+          return 'a case assigns to the switched variable';
+        }
+        parameter = subject.getText(sourceFile);
+      }
+      prepared.push({ group, names, parameter });
+    }
+
+    const base = indentOf(node.getStart(sourceFile));
+    const unit =
+      indentOf(clauses[0].getStart(sourceFile)).slice(base.length) || '  ';
+
+    const handlers = prepared.flatMap(({ group, names, parameter }) => {
+      const { statements } = group;
+      const [first] = statements;
+      const last = statements[statements.length - 1];
+      const leading = source.slice(
+        first.getFullStart(),
+        first.getStart(sourceFile),
+      );
+      const column = columnOf(first.getStart(sourceFile));
+
+      let body: string;
+      if (
+        statements.length === 1 &&
+        ts.isReturnStatement(first) &&
+        !leading.trim()
+      ) {
+        const { expression } = first;
+        const text = expression
+          ? reindent(
+              slice(expression.getStart(sourceFile), expression.end),
+              column,
+              base + unit,
+            ).trimStart()
+          : 'undefined';
+        body = text.startsWith('{') ? `(${text})` : text;
+      } else {
+        const from = leading.trim()
+          ? first.getFullStart() + leading.search(/\S/)
+          : first.getStart(sourceFile);
+        const text = reindent(
+          slice(from, last.end),
+          columnOf(from),
+          base + unit + unit,
+        );
+        body = `{\n${text}\n${base}${unit}}`;
+      }
+      return names.map(
+        (name) => `${base}${unit}${name}: (${parameter}) => ${body},\n`,
+      );
+    });
+
+    const returns = groups.some(
+      (group) =>
+        !ts.isThrowStatement(group.statements[group.statements.length - 1]),
+    );
+    const key = d.key === 'type' ? '' : `, ${stringLiteral(d.key, quote)}`;
+    used.add(fn);
+    return {
+      start: node.getStart(sourceFile),
+      end: node.end,
+      text: `${returns ? 'return ' : ''}${fn}(${slice(subject.getStart(sourceFile), subject.end)}${key})({\n${handlers.join('')}${base}});`,
+    };
+  };
+
+  const visit = (node: ts.Node): void => {
+    ts.forEachChild(node, visit);
+    if (!ts.isSwitchStatement(node)) return;
+    const d = discriminantOf(node, checker);
+    if (!d) return;
+
+    const result = convert(node, d);
+    if (typeof result === 'string') {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+        node.getStart(sourceFile),
+      );
+      skipped.push({ line: line + 1, column: character + 1, reason: result });
+    } else {
+      edits.push(result);
+      terminating.add(node);
+      converted++;
+    }
+  };
+  visit(sourceFile);
+
+  const missing = [...used].filter((name) => !fromDismatch.has(name)).sort();
+  if (missing.length) {
+    const existing = imports.find(
+      (declaration) =>
+        ts.isStringLiteral(declaration.moduleSpecifier) &&
+        declaration.moduleSpecifier.text === MODULE &&
+        !declaration.importClause?.isTypeOnly &&
+        declaration.importClause?.namedBindings &&
+        ts.isNamedImports(declaration.importClause.namedBindings),
+    );
+    const bindings = existing?.importClause?.namedBindings as
+      ts.NamedImports | undefined;
+    if (bindings) {
+      const names = [
+        ...bindings.elements.map((element) => element.getText(sourceFile)),
+        ...missing,
+      ];
+      edits.push({
+        start: bindings.getStart(sourceFile),
+        end: bindings.end,
+        text: `{ ${names.join(', ')} }`,
+      });
+    } else {
+      const line = `import { ${missing.join(', ')} } from ${quote}${MODULE}${quote};`;
+      const after = imports[imports.length - 1];
+      edits.push(
+        after
+          ? { start: after.end, end: after.end, text: `\n${line}` }
+          : {
+              start: sourceFile.statements[0]?.getStart(sourceFile) ?? 0,
+              end: sourceFile.statements[0]?.getStart(sourceFile) ?? 0,
+              text: `${line}\n\n`,
+            },
+      );
+    }
+  }
+
+  let text = source;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    text = text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+  }
+  return { text, converted, skipped };
+}
@@ -0,0 +1,12 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  entry: ['src/index.ts', 'src/cli.ts'],
+  format: ['cjs'],
+  dts: { entry: 'src/index.ts' },
+  clean: true,
+  outDir: 'lib',
+  platform: 'node',
+  target: 'node18',
+  external: ['typescript'],
+});
@@ -0,0 +1,80 @@
+import rule from '../rules/map-return-discriminant';
+import { ruleTester, shape } from './setup';
+
+ruleTester.run('map-return-discriminant', rule, {
+  valid: [
+    `import { map } from 'dismatch';
+    ${shape}
+    map(shape)({ circle: ({ radius }) => ({ type: 'circle' as const, radius: radius * 2 }) });`,
+    `import { mapAll } from 'dismatch';
+    ${shape}
+    mapAll(shape)({
+      circle: (circle) => ({ ...circle, type: 'circle' } as const),
+      square: (square) => ({ type: <const>'square', ...square }),
+      triangle: (triangle) => {
+        if (triangle.base > 0) return { ...triangle };
+        return { type: 'triangle' as const, base: 0, height: 0 };
+      },
+    });`,
+    `${shape}
+    [1, 2].map((n) => ({ value: n }));`,
+    `import { match } from 'dismatch';
+    ${shape}
+    match(shape)({ circle: () => ({ area: 1 }), square: () => ({}), triangle: () => ({}) });`,
+  ],
+  invalid: [
+    {
+      code: `import { map } from 'dismatch';
+      ${shape}
+      map(shape)({ circle: ({ radius }) => ({ radius: radius * 2 }) });`,
+      errors: [
+        {
+          messageId: 'missingDiscriminant',
+          data: { method: 'map', key: 'type' },
+        },
+      ],
+    },
+    {
+      code: `import { mapAll } from 'dismatch';
+      type Job = { status: 'queued'; id: string } | { status: 'done'; id: string };
+      declare const job: Job;
+      mapAll(job, 'status')({
+        queued: ({ id }) => ({ status: 'queued', id }),
+        done: function ({ id }) {
+          return { id };
+        },
+      });`,
+      errors: [
+        {
+          messageId: 'missingAsConst',
+          data: { method: 'mapAll', key: 'status' },
+          line: 5,
+        },
+        {
+          messageId: 'missingDiscriminant',
+          data: { method: 'mapAll', key: 'status' },
+          line: 7,
+        },
+      ],
+    },
+    {
+      code: `import { createPipeHandlers } from 'dismatch';
+      type Event = { payload: { kind: 'a'; n: number } | { kind: 'b' } };
+      declare const event: Event;
+      const ops = createPipeHandlers<Event>(['payload', 'kind']);
+      ops.map({ a: ({ n }) => ({ kind: \`a\`, n: n + 1 }) })(event);`,
+      errors: [{ messageId: 'missingAsConst', data: { key: 'kind' } }],
+    },
+    {
+      code: `import { map } from 'dismatch';
+      ${shape}
+      map(shape)({ circle: ({ radius }) => ({ radius: radius * 2 }) as const });`,
+      errors: [
+        {
+          messageId: 'missingDiscriminant',
+          data: { method: 'map', key: 'type' },
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,51 @@
+import rule from '../rules/no-dead-default';
+import { ruleTester, shape } from './setup';
+
+ruleTester.run('no-dead-default', rule, {
+  valid: [
+    `import { matchWithDefault } from 'dismatch';
+    ${shape}
+    matchWithDefault(shape)({ circle: () => 1, Default: () => 0 });`,
+    `import { createPipeHandlers } from 'dismatch';
+    ${shape}
+    const ops = createPipeHandlers<Shape>('type');
+    ops.matchWithDefault({ circle: () => 1, square: () => 2, Default: () => 0 })(shape);`,
+    `declare function matchWithDefault(x: unknown): (handlers: object) => number;
+    matchWithDefault(1)({ circle: () => 1, square: () => 2, triangle: () => 3, Default: () => 0 });`,
+  ],
+  invalid: [
+    {
+      code: `import { matchWithDefault } from 'dismatch';
+      ${shape}
+      matchWithDefault(shape)({
+        circle: () => 1,
+        square: () => 2,
+        triangle: () => 3,
+        Default: () => 0,
+      });`,
+      errors: [{ messageId: 'deadDefault', line: 16 }],
+    },
+    {
+      code: `import { createPipeHandlers } from 'dismatch';
+      ${shape}
+      const ops = createPipeHandlers<Shape>('type');
+      const rest = { square: () => 2, triangle: () => 3 };
+      ops.matchWithDefault({ circle: () => 1, ...rest, Default: () => 0 })(shape);`,
+      errors: [{ messageId: 'deadDefault' }],
+    },
+    {
+      code: `import * as D from 'dismatch';
+      type Job = D.Model<'queued', {}, 'status'> | D.Model<'done', {}, 'status'>;
+      declare const job: Job;
+      D.matchWithDefault(job, 'status')({ queued: () => 1, done: () => 2, Default: () => 0 });`,
+      errors: [{ messageId: 'deadDefault' }],
+    },
+    {
+      code: `import { defineUnion } from 'dismatch';
+      ${shape}
+      const Shapes = defineUnion<Shape>('type', ['circle', 'square', 'triangle']);
+      Shapes.matchWithDefault(shape)({ circle: () => 1, square: () => 2, triangle: () => 3, Default: () => 0 });`,
+      errors: [{ messageId: 'deadDefault' }],
+    },
+  ],
+});
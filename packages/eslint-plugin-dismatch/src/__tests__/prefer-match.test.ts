@@ -0,0 +1,39 @@
+import rule from '../rules/prefer-match';
+import { ruleTester, shape } from './setup';
+
+ruleTester.run('prefer-match', rule, {
+  valid: [
+    `declare const status: 'idle' | 'done';
+    switch (status) { case 'idle': break; }`,
+    `declare const user: { name: string; role: string };
+    switch (user.role) { case 'admin': break; }`,
+    `declare const event: { type: 'click'; x: number };
+    switch (event.type) { case 'click': break; }`,
+    `${shape}
+    switch (shape.radius) { default: break; }`,
+  ],
+  invalid: [
+    {
+      code: `${shape}
+      switch (shape.type) {
+        case 'circle': break;
+        case 'square': break;
+      }`,
+      errors: [{ messageId: 'preferMatch', data: { key: 'type' } }],
+    },
+    {
+      code: `type Job =
+        | { status: 'queued'; id: string }
+        | { status: 'failed'; error: Error };
+      declare const job: Job | undefined;
+      switch (job?.['status']) { default: break; }`,
+      errors: [{ messageId: 'preferMatch', data: { key: 'status' } }],
+    },
+    {
+      code: `enum Kind { A, B }
+      declare const value: { kind: Kind.A } | { kind: Kind.B; b: true };
+      switch (value.kind) { default: break; }`,
+      errors: [{ messageId: 'preferMatch', data: { key: 'kind' } }],
+    },
+  ],
+});
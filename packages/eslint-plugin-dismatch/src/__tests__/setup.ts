@@ -0,0 +1,28 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { afterAll, describe, it } from 'vitest';
+import { resolve } from 'node:path';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.itOnly = it.only;
+
+export const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      project: './tsconfig.json',
+      tsconfigRootDir: resolve(__dirname, 'fixtures'),
+    },
+  },
+});
+
+export const shape = `
+import type { Model } from 'dismatch';
+
+type Shape =
+  | Model<'circle', { radius: number }>
+  | Model<'square', { side: number }>
+  | Model<'triangle', { base: number; height: number }>;
+
+declare const shape: Shape;
+`;
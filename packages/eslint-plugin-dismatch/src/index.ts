@@ -0,0 +1,32 @@
+import type { TSESLint } from '@typescript-eslint/utils';
+import mapReturnDiscriminant from './rules/map-return-discriminant';
+import noDeadDefault from './rules/no-dead-default';
+import preferMatch from './rules/prefer-match';
+import { name, version } from '../package.json';
+
+const rules = {
+  'map-return-discriminant': mapReturnDiscriminant,
+  'no-dead-default': noDeadDefault,
+  'prefer-match': preferMatch,
+};
+
+const plugin = {
+  meta: { name, version },
+  rules,
+  configs: {} as { recommended: TSESLint.FlatConfig.Config },
+};
+
+/**
+ * Enables every rule. The rules use type information, so the config also needs
+ * `languageOptions.parserOptions.projectService` (or `project`) and the TypeScript parser.
+ */
+plugin.configs.recommended = {
+  plugins: { dismatch: plugin },
+  rules: {
+    'dismatch/map-return-discriminant': 'error',
+    'dismatch/no-dead-default': 'error',
+    'dismatch/prefer-match': 'warn',
+  },
+};
+
+export = plugin;
@@ -0,0 +1,111 @@
+import { AST_NODE_TYPES, TSESTree } from '@typescript-eslint/utils';
+import {
+  createRule,
+  discriminantKey,
+  handlerCall,
+  isConstAssertion,
+  keyName,
+} from '../utils';
+
+type Handler = TSESTree.ArrowFunctionExpression | TSESTree.FunctionExpression;
+
+export default createRule({
+  name: 'map-return-discriminant',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Require `map` and `mapAll` handlers to return the discriminant with `as const`',
+      recommended: true,
+      requiresTypeChecking: true,
+    },
+    messages: {
+      missingDiscriminant:
+        "A `{{method}}` handler must return a complete variant, including '{{key}}'.",
+      missingAsConst:
+        "Add `as const` to '{{key}}' so the returned variant keeps its literal type.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const check = (handler: Handler, node: TSESTree.Node) => {
+      // `{ ... } as const` keeps every literal, so only the discriminant is checked
+      const asConst = isConstAssertion(node);
+      const returned = asConst ? node.expression : node;
+      if (returned.type !== AST_NODE_TYPES.ObjectExpression) return;
+      if (
+        handler.parent.type !== AST_NODE_TYPES.Property ||
+        handler.parent.value !== handler ||
+        handler.parent.parent.type !== AST_NODE_TYPES.ObjectExpression
+      ) {
+        return;
+      }
+      const call = handlerCall(context, handler.parent.parent);
+      if (call?.method !== 'map' && call?.method !== 'mapAll') return;
+      const key = discriminantKey(context, call.discriminant);
+      if (key === undefined) return;
+
+      const data = { method: call.method, key };
+      const property = returned.properties.find(
+        (property): property is TSESTree.Property =>
+          property.type === AST_NODE_TYPES.Property &&
+          keyName(property) === key,
+      );
+      if (!property) {
+        const spread = returned.properties.some(
+          (property) => property.type === AST_NODE_TYPES.SpreadElement,
+        );
+        if (!spread) {
+          context.report({
+            node: returned,
+            messageId: 'missingDiscriminant',
+            data,
+          });
+        }
+        return;
+      }
+      if (
+        !asConst &&
+        (property.value.type === AST_NODE_TYPES.Literal ||
+          property.value.type === AST_NODE_TYPES.TemplateLiteral)
+      ) {
+        context.report({
+          node: property.value,
+          messageId: 'missingAsConst',
+          data,
+        });
+      }
+    };
+
+    const handlers: Handler[] = [];
+    const enter = (node: TSESTree.FunctionLike) => {
+      handlers.push(node as Handler);
+    };
+    const exit = () => {
+      handlers.pop();
+    };
+
+    return {
+      ArrowFunctionExpression(node) {
+        enter(node);
+        if (node.expression) check(node, node.body);
+      },
+      'ArrowFunctionExpression:exit': exit,
+      FunctionExpression: enter,
+      'FunctionExpression:exit': exit,
+      FunctionDeclaration: enter,
+      'FunctionDeclaration:exit': exit,
+      ReturnStatement(node) {
+        const handler = handlers.at(-1);
+        if (
+          node.argument &&
+          (handler?.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+            handler?.type === AST_NODE_TYPES.FunctionExpression)
+        ) {
+          check(handler, node.argument);
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,56 @@
+import { AST_NODE_TYPES, ESLintUtils } from '@typescript-eslint/utils';
+import { createRule, handlerCall, keyName } from '../utils';
+
+export default createRule({
+  name: 'no-dead-default',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow `matchWithDefault` calls whose handlers already cover every variant',
+      recommended: true,
+      requiresTypeChecking: true,
+    },
+    messages: {
+      deadDefault:
+        'Every variant has a handler, so `Default` is never called. Use `match` instead.',
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const services = ESLintUtils.getParserServices(context);
+    const checker = services.program.getTypeChecker();
+
+    return {
+      ObjectExpression(node) {
+        const fallback = node.properties.find(
+          (property) =>
+            property.type === AST_NODE_TYPES.Property &&
+            keyName(property) === 'Default',
+        );
+        if (!fallback) return;
+        if (handlerCall(context, node)?.method !== 'matchWithDefault') return;
+
+        const expected = checker.getContextualType(
+          services.esTreeNodeToTSNodeMap.get(node),
+        );
+        if (!expected) return;
+        const variants = expected
+          .getProperties()
+          .map((property) => property.name)
+          .filter((name) => name !== 'Default');
+        const handled = new Set(
+          services
+            .getTypeAtLocation(node)
+            .getProperties()
+            .map((property) => property.name),
+        );
+
+        if (variants.length && variants.every((name) => handled.has(name))) {
+          context.report({ node: fallback, messageId: 'deadDefault' });
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,76 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  TSESTree,
+} from '@typescript-eslint/utils';
+import ts from 'typescript';
+import { createRule } from '../utils';
+
+const UNIT =
+  ts.TypeFlags.StringLiteral |
+  ts.TypeFlags.NumberLiteral |
+  ts.TypeFlags.BooleanLiteral |
+  ts.TypeFlags.EnumLiteral;
+
+function memberKey(node: TSESTree.MemberExpression) {
+  if (!node.computed && node.property.type === AST_NODE_TYPES.Identifier) {
+    return node.property.name;
+  }
+  return node.property.type === AST_NODE_TYPES.Literal &&
+    typeof node.property.value === 'string'
+    ? node.property.value
+    : undefined;
+}
+
+export default createRule({
+  name: 'prefer-match',
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description:
+        'Prefer `match` over `switch` statements on the discriminant of a union',
+      recommended: true,
+      requiresTypeChecking: true,
+    },
+    messages: {
+      preferMatch:
+        "This switch discriminates a union on '{{key}}'. Use `match` so that a new variant is a compile error here.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const services = ESLintUtils.getParserServices(context);
+    const checker = services.program.getTypeChecker();
+
+    return {
+      SwitchStatement(node) {
+        const discriminant =
+          node.discriminant.type === AST_NODE_TYPES.ChainExpression
+            ? node.discriminant.expression
+            : node.discriminant;
+        if (discriminant.type !== AST_NODE_TYPES.MemberExpression) return;
+        const key = memberKey(discriminant);
+        if (key === undefined) return;
+
+        const type = services.getTypeAtLocation(discriminant.object);
+        const variants = (type.isUnion() ? type.types : [type]).filter(
+          (variant) =>
+            !(variant.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)),
+        );
+        if (variants.length < 2) return;
+
+        const tsNode = services.esTreeNodeToTSNodeMap.get(discriminant);
+        const discriminated = variants.every((variant) => {
+          const property = variant.getProperty(key);
+          if (!property) return false;
+          const value = checker.getTypeOfSymbolAtLocation(property, tsNode);
+          return !!(value.flags & UNIT);
+        });
+        if (discriminated) {
+          context.report({ node, messageId: 'preferMatch', data: { key } });
+        }
+      },
+    };
+  },
+});
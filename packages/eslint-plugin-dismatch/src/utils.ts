@@ -0,0 +1,180 @@
+import {
+  AST_NODE_TYPES,
+  ASTUtils,
+  ESLintUtils,
+  TSESLint,
+  TSESTree,
+} from '@typescript-eslint/utils';
+
+export type Docs = { recommended: boolean; requiresTypeChecking: boolean };
+
+export const createRule = ESLintUtils.RuleCreator<Docs>(
+  (name) =>
+    `https://github.com/amir-gorji/dismatch/tree/main/packages/eslint-plugin-dismatch#${name}`,
+);
+
+/** A call that receives a handler object, such as `map(shape)({ ... })` or `ops.map({ ... })`. */
+export type HandlerCall = {
+  /** The dismatch function or method, e.g. `'map'`. */
+  method: string;
+  handlers: TSESTree.ObjectExpression;
+  /** The discriminant expression, `'type'` when the default applies. */
+  discriminant: TSESTree.Node | 'type';
+};
+
+type Context = Readonly<TSESLint.RuleContext<string, readonly unknown[]>>;
+
+function definition(context: Context, node: TSESTree.Identifier) {
+  const variable = ASTUtils.findVariable(
+    context.sourceCode.getScope(node),
+    node,
+  );
+  return variable?.defs[0];
+}
+
+/** The export an identifier is imported as from `dismatch` — `'*'` for a namespace import. */
+function imported(context: Context, node: TSESTree.Identifier) {
+  const def = definition(context, node);
+  if (
+    def?.type !== 'ImportBinding' ||
+    def.parent.type !== AST_NODE_TYPES.ImportDeclaration ||
+    def.parent.source.value !== 'dismatch'
+  ) {
+    return undefined;
+  }
+  if (def.node.type === AST_NODE_TYPES.ImportNamespaceSpecifier) return '*';
+  if (def.node.type !== AST_NODE_TYPES.ImportSpecifier) return undefined;
+  return def.node.imported.type === AST_NODE_TYPES.Identifier
+    ? def.node.imported.name
+    : def.node.imported.value;
+}
+
+function propertyName(node: TSESTree.MemberExpression) {
+  if (!node.computed && node.property.type === AST_NODE_TYPES.Identifier) {
+    return node.property.name;
+  }
+  return node.property.type === AST_NODE_TYPES.Literal &&
+    typeof node.property.value === 'string'
+    ? node.property.value
+    : undefined;
+}
+
+/** The dismatch export `node` refers to: `map`, `D.map` after `import * as D`. */
+function dismatchExport(context: Context, node: TSESTree.Node) {
+  if (node.type === AST_NODE_TYPES.Identifier) {
+    const name = imported(context, node);
+    return name === '*' ? undefined : name;
+  }
+  if (
+    node.type === AST_NODE_TYPES.MemberExpression &&
+    node.object.type === AST_NODE_TYPES.Identifier &&
+    imported(context, node.object) === '*'
+  ) {
+    return propertyName(node);
+  }
+  return undefined;
+}
+
+/** For `ops.map`, the `createPipeHandlers(...)` or `defineUnion(...)` call that created `ops`. */
+function factoryCall(context: Context, node: TSESTree.MemberExpression) {
+  if (node.object.type !== AST_NODE_TYPES.Identifier) return undefined;
+  const def = definition(context, node.object);
+  if (
+    def?.type !== 'Variable' ||
+    def.node.init?.type !== AST_NODE_TYPES.CallExpression
+  ) {
+    return undefined;
+  }
+  const factory = dismatchExport(context, def.node.init.callee);
+  return factory === 'createPipeHandlers' || factory === 'defineUnion'
+    ? { factory, call: def.node.init }
+    : undefined;
+}
+
+/**
+ * Recognises the ways dismatch functions receive handlers: value-first
+ * (`map(shape, 'kind')({ ... })`, `Shape.map(shape)({ ... })`) and handlers-first through
+ * `createPipeHandlers` (`ops.map({ ... })`).
+ */
+export function handlerCall(
+  context: Context,
+  handlers: TSESTree.ObjectExpression,
+): HandlerCall | undefined {
+  const call = handlers.parent;
+  if (
+    call.type !== AST_NODE_TYPES.CallExpression ||
+    call.arguments[0] !== handlers
+  ) {
+    return undefined;
+  }
+
+  const { callee } = call;
+  if (callee.type === AST_NODE_TYPES.CallExpression) {
+    const method = dismatchExport(context, callee.callee);
+    if (method) {
+      return {
+        method,
+        handlers,
+        discriminant: callee.arguments[1] ?? 'type',
+      };
+    }
+    if (callee.callee.type !== AST_NODE_TYPES.MemberExpression) {
+      return undefined;
+    }
+    const factory = factoryCall(context, callee.callee);
+    const name = propertyName(callee.callee);
+    return factory?.factory === 'defineUnion' && name
+      ? { method: name, handlers, discriminant: factory.call.arguments[0] }
+      : undefined;
+  }
+
+  if (callee.type !== AST_NODE_TYPES.MemberExpression) return undefined;
+  const factory = factoryCall(context, callee);
+  const name = propertyName(callee);
+  return factory?.factory === 'createPipeHandlers' && name
+    ? { method: name, handlers, discriminant: factory.call.arguments[0] }
+    : undefined;
+}
+
+/**
+ * The property name a discriminant expression refers to: a string literal, the last element
+ * of a path literal, or the string literal type of any other expression.
+ */
+export function discriminantKey(
+  context: Context,
+  node: TSESTree.Node | 'type' | undefined,
+): string | undefined {
+  if (node === undefined || node === 'type') return node;
+  if (node.type === AST_NODE_TYPES.Literal) {
+    return typeof node.value === 'string' ? node.value : undefined;
+  }
+  if (node.type === AST_NODE_TYPES.ArrayExpression) {
+    return discriminantKey(context, node.elements.at(-1) ?? undefined);
+  }
+  const services = ESLintUtils.getParserServices(context);
+  const type = services.getTypeAtLocation(node);
+  return type.isStringLiteral() ? type.value : undefined;
+}
+
+/** The name of a non-computed property key, or of a string literal key. */
+export function keyName(property: TSESTree.Property) {
+  if (!property.computed && property.key.type === AST_NODE_TYPES.Identifier) {
+    return property.key.name;
+  }
+  return property.key.type === AST_NODE_TYPES.Literal
+    ? String(property.key.value)
+    : undefined;
+}
+
+/** Whether `node` is an `as const` or `<const>` assertion. */
+export function isConstAssertion(
+  node: TSESTree.Node,
+): node is TSESTree.TSAsExpression | TSESTree.TSTypeAssertion {
+  return (
+    (node.type === AST_NODE_TYPES.TSAsExpression ||
+      node.type === AST_NODE_TYPES.TSTypeAssertion) &&
+    node.typeAnnotation.type === AST_NODE_TYPES.TSTypeReference &&
+    node.typeAnnotation.typeName.type === AST_NODE_TYPES.Identifier &&
+    node.typeAnnotation.typeName.name === 'const'
+  );
+}
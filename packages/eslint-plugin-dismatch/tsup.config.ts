@@ -0,0 +1,11 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  entry: ['src/index.ts'],
+  format: ['cjs'],
+  dts: true,
+  clean: true,
+  outDir: 'lib',
+  platform: 'node',
+  target: 'node18',
+});
@@ -7,16 +7,18 @@
  * Demonstrates:
  *   - Defining a parameterised state union with Model<>
  *   - match() for exhaustive view rendering / status derivation
- *   - map() for state transitions that only touch one variant
+ *   - mapData() for state transitions that only touch one variant
  *   - matchWithDefault() for "I only care about this one case"
  *   - createPipeHandlers for reusable, pipe-friendly handlers
+ *   - createMachine for a transition table that rules out illegal transitions
  */
 
 import {
   match,
-  map,
+  mapData,
   matchWithDefault,
   createPipeHandlers,
+  createMachine,
   isUnion,
 } from 'dismatch';
 import type { Model } from 'dismatch';
@@ -58,10 +60,9 @@ function onSuccess<T>(data: T): FetchState<T> {
 
 /** Record a failure, incrementing the retry counter. */
 function onFailure<T>(state: FetchState<T>, error: string): FetchState<T> {
-  // map() handler parameters are typed as the variant's Data (without the discriminant key).
-  // Include type: 'failure' as const in the return to reconstruct the full variant.
-  return map(state)({
-    failure: ({ retries }) => ({ type: 'failure' as const, error, retries: retries + 1 }),
+  // mapData() handlers return the new payload; the 'failure' discriminant is put back.
+  return mapData(state)({
+    failure: ({ retries }) => ({ error, retries: retries + 1 }),
   });
 }
 
@@ -119,6 +120,50 @@ const getStatusMessage = userFetchOps.match({
   failure: ({ error }) => `Could not load users: ${error}`,
 });
 
+// ── createMachine — only legal transitions compile ────────────────────────────
+
+type FetchEvent<T> =
+  | Model<'fetch'>
+  | Model<'resolve', { data: T }>
+  | Model<'reject', { error: string }>;
+
+/**
+ * Every state lists every event: a handler for the next state, or `null` to
+ * ignore the event. Forgetting one is a compile error, and `transition` only
+ * accepts the events the current state handles.
+ */
+const userFetch = createMachine<FetchState<User[]>, FetchEvent<User[]>>('type', 'type')({
+  transitions: {
+    idle:    { fetch: () => ({ type: 'loading' }), resolve: null, reject: null },
+    loading: {
+      fetch:   null,
+      resolve: (_, { data }) => ({ type: 'success', data, stale: false }),
+      reject:  (_, { error }) => ({ type: 'failure', error, retries: 1 }),
+    },
+    success: {
+      fetch:   ({ data }) => ({ type: 'success', data, stale: true }),
+      resolve: (_, { data }) => ({ type: 'success', data, stale: false }),
+      reject:  null,
+    },
+    failure: {
+      fetch:   () => ({ type: 'loading' }),
+      resolve: null,
+      reject:  ({ retries }, { error }) => ({ type: 'failure', error, retries: retries + 1 }),
+    },
+  },
+  entry: {
+    failure: ({ error }) => console.warn(`Fetch failed: ${error}`),
+  },
+});
+
+userFetch.subscribe((next, previous) =>
+  console.log(`${previous.type} → ${next.type}`),
+);
+
+const idleState: FetchState<User[]> = { type: 'idle' };
+const machineState = userFetch.transition(idleState, { type: 'fetch' }); // 'idle → loading'
+console.log(userFetch.can(machineState, { type: 'fetch' }));            // false — already in-flight
+
 // ── Simulation ─────────────────────────────────────────────────────────────────
 
 let state: FetchState<User[]> = { type: 'idle' };
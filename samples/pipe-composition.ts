@@ -71,17 +71,15 @@ const getPerimeter = shapeOps.match({
 });
 
 /**
- * Normalise all dimensions to absolute values without touching other variants.
+ * Normalise all dimensions to absolute values.
  *
- * map() handler parameters are typed as the variant's Data (without the discriminant).
- * Provide the type literal explicitly in the return to reconstruct the full variant.
+ * mapAllData() handlers receive and return the payload only — the discriminant is put back,
+ * so a handler cannot turn a circle into another variant by mistake.
  */
-const normalise = shapeOps.map({
-  circle:    ({ radius })        => ({ type: 'circle'    as const, radius: Math.abs(radius) }),
-  rectangle: ({ width, height }) => ({ type: 'rectangle' as const, width:  Math.abs(width),
-                                                                    height: Math.abs(height) }),
-  triangle:  ({ base, height })  => ({ type: 'triangle'  as const, base:   Math.abs(base),
-                                                                    height: Math.abs(height) }),
+const normalise = shapeOps.mapAllData({
+  circle:    ({ radius })        => ({ radius: Math.abs(radius) }),
+  rectangle: ({ width, height }) => ({ width: Math.abs(width), height: Math.abs(height) }),
+  triangle:  ({ base, height })  => ({ base:  Math.abs(base),  height: Math.abs(height) }),
 });
 
 // ── Build a full report in a pipe ─────────────────────────────────────────────
@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import { matchAsync, mapAsync } from '../async';
+import { createPipeHandlers } from '../unions';
+import {
+  HandlerError,
+  InvalidUnionError,
+  TimeoutError,
+  UnhandledVariantError,
+} from '../errors';
+
+type Job =
+  | { type: 'queued'; jobId: string }
+  | { type: 'running'; jobId: string; progress: number }
+  | { type: 'done'; result: string };
+
+type Animal = { kind: 'dog'; name: string } | { kind: 'cat'; lives: number };
+
+const queued = { type: 'queued', jobId: 'j1' } as Job;
+const running = { type: 'running', jobId: 'j2', progress: 50 } as Job;
+const done = { type: 'done', result: 'ok' } as Job;
+
+const delay = <T>(ms: number, value: T) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+/** Resolves after `ms`, or rejects with the signal's reason as soon as it aborts. */
+const abortable = (ms: number, signal: AbortSignal) =>
+  new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => resolve('late'), ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+const handlers = {
+  queued: async ({ jobId }: { jobId: string }) => `queued ${jobId}`,
+  running: ({ progress }: { progress: number }) => delay(5, progress),
+  done: ({ result }: { result: string }) => result,
+};
+
+describe('matchAsync', () => {
+  it('should resolve async handlers to a flat Promise', async () => {
+    await expect(matchAsync(queued)(handlers)).resolves.toBe('queued j1');
+    await expect(matchAsync(running)(handlers)).resolves.toBe(50);
+  });
+
+  it('should resolve sync handlers too', async () => {
+    await expect(matchAsync(done)(handlers)).resolves.toBe('ok');
+  });
+
+  it('should pass an AbortSignal to the handler', async () => {
+    let received: AbortSignal | undefined;
+    await matchAsync(done)({
+      queued: () => 0,
+      running: () => 0,
+      done: (_, signal) => {
+        received = signal;
+        return 1;
+      },
+    });
+    expect(received?.aborted).toBe(false);
+  });
+
+  it('should work with a custom discriminant', async () => {
+    const dog = { kind: 'dog', name: 'Rex' } as Animal;
+    const name = await matchAsync(
+      dog,
+      'kind',
+    )({
+      dog: async ({ name }) => name,
+      cat: async ({ lives }) => String(lives),
+    });
+    expect(name).toBe('Rex');
+  });
+
+  it('should throw synchronously for invalid input', () => {
+    expect(() => matchAsync(null as any)).toThrow(InvalidUnionError);
+  });
+
+  it('should reject when a handler is missing at runtime', async () => {
+    await expect(
+      matchAsync(done)({ queued: () => 1 } as any),
+    ).rejects.toBeInstanceOf(UnhandledVariantError);
+  });
+
+  it('should wrap handler rejections with the failing variant', async () => {
+    const cause = new Error('boom');
+    const err = await matchAsync(running)({
+      queued: () => 0,
+      running: () => Promise.reject(cause),
+      done: () => 0,
+    }).catch((e) => e);
+    expect(err).toBeInstanceOf(HandlerError);
+    expect(err.received).toBe('running');
+    expect(err.discriminant).toBe('type');
+    expect(err.cause).toBe(cause);
+    expect(err.message).toBe("Handler for 'running' at 'type' failed: boom");
+  });
+
+  it('should wrap synchronous handler throws', async () => {
+    const err = await matchAsync(queued)({
+      queued: () => {
+        throw 'nope';
+      },
+      running: () => 0,
+      done: () => 0,
+    }).catch((e) => e);
+    expect(err).toBeInstanceOf(HandlerError);
+    expect(err.cause).toBe('nope');
+  });
+
+  describe('timeout', () => {
+    it('should reject with a TimeoutError and abort the handler signal', async () => {
+      let signal: AbortSignal | undefined;
+      const err = await matchAsync(running)(
+        {
+          queued: () => '',
+          running: (_, s) => {
+            signal = s;
+            return abortable(1_000, s);
+          },
+          done: () => '',
+        },
+        { timeout: 10 },
+      ).catch((e) => e);
+      expect(err).toBeInstanceOf(TimeoutError);
+      expect(err.timeout).toBe(10);
+      expect(err.received).toBe('running');
+      expect(err.message).toBe(
+        "Handler for 'running' at 'type' timed out after 10ms",
+      );
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBe(err);
+    });
+
+    it('should resolve when the handler settles in time', async () => {
+      await expect(
+        matchAsync(running)(handlers, { timeout: 1_000 }),
+      ).resolves.toBe(50);
+    });
+  });
+
+  describe('signal', () => {
+    it('should reject with the reason when the caller aborts', async () => {
+      const controller = new AbortController();
+      const pending = matchAsync(running)(
+        {
+          queued: () => '',
+          running: (_, s) => abortable(1_000, s),
+          done: () => '',
+        },
+        { signal: controller.signal },
+      );
+      const reason = new Error('cancelled');
+      controller.abort(reason);
+      await expect(pending).rejects.toBe(reason);
+    });
+
+    it('should not call the handler when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort('stop');
+      let called = false;
+      await expect(
+        matchAsync(done)(
+          {
+            queued: () => 0,
+            running: () => 0,
+            done: () => (called = true),
+          },
+          { signal: controller.signal },
+        ),
+      ).rejects.toBe('stop');
+      expect(called).toBe(false);
+    });
+  });
+});
+
+describe('mapAsync', () => {
+  it('should transform matched variants', async () => {
+    const result = await mapAsync(running)({
+      running: async ({ jobId, progress }) => ({
+        type: 'running' as const,
+        jobId,
+        progress: progress + 10,
+      }),
+    });
+    expect(result).toEqual({ type: 'running', jobId: 'j2', progress: 60 });
+  });
+
+  it('should resolve unmatched variants to the same reference', async () => {
+    const result = await mapAsync(done)({
+      running: async (job) => job,
+    });
+    expect(result).toBe(done);
+  });
+
+  it('should wrap handler rejections', async () => {
+    await expect(
+      mapAsync(queued)({ queued: () => Promise.reject(new Error('x')) }),
+    ).rejects.toBeInstanceOf(HandlerError);
+  });
+
+  it('should throw synchronously for invalid input', () => {
+    expect(() => mapAsync(undefined as any)).toThrow(InvalidUnionError);
+  });
+});
+
+describe('createPipeHandlers async', () => {
+  const jobOps = createPipeHandlers<Job, 'type'>('type');
+  const animalOps = createPipeHandlers<Animal, 'kind'>('kind');
+
+  it('matchAsync: should return a reusable async function', async () => {
+    const describeJob = jobOps.matchAsync(handlers);
+    const results = await Promise.all([queued, running, done].map(describeJob));
+    expect(results).toEqual(['queued j1', 50, 'ok']);
+  });
+
+  it('matchAsync: should apply options to every call', async () => {
+    const slow = jobOps.matchAsync(
+      {
+        queued: (_, s) => abortable(1_000, s),
+        running: (_, s) => abortable(1_000, s),
+        done: () => 'fast',
+      },
+      { timeout: 5 },
+    );
+    await expect(slow(done)).resolves.toBe('fast');
+    await expect(slow(queued)).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('mapAsync: should use the bound discriminant', async () => {
+    const birthday = animalOps.mapAsync({
+      cat: async ({ lives }) => ({ kind: 'cat' as const, lives: lives + 1 }),
+    });
+    const dog = { kind: 'dog', name: 'Rex' } as Animal;
+    await expect(birthday({ kind: 'cat', lives: 8 })).resolves.toEqual({
+      kind: 'cat',
+      lives: 9,
+    });
+    await expect(birthday(dog)).resolves.toBe(dog);
+  });
+});
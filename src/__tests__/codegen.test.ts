@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import { generate } from '../codegen';
+import {
+  number,
+  object,
+  optional,
+  string,
+  toJSONSchema,
+  unionSchema,
+} from '../schema';
+import type { Model } from '../types';
+
+const openapi = {
+  openapi: '3.1.0',
+  components: {
+    schemas: {
+      Shape: {
+        description: 'A drawable shape.',
+        oneOf: [
+          { $ref: '#/components/schemas/Circle' },
+          { $ref: '#/components/schemas/Rect' },
+        ],
+        discriminator: {
+          propertyName: 'kind',
+          mapping: {
+            circle: '#/components/schemas/Circle',
+            rect: '#/components/schemas/Rect',
+          },
+        },
+      },
+      Circle: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string' },
+          radius: { type: 'number' },
+          center: { $ref: '#/components/schemas/Vec' },
+        },
+        required: ['kind', 'radius'],
+      },
+      Rect: {
+        allOf: [
+          { $ref: '#/components/schemas/Labelled' },
+          {
+            type: 'object',
+            properties: { width: { type: 'integer' } },
+            required: ['width'],
+          },
+        ],
+      },
+      Labelled: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string' },
+          label: { type: 'string', nullable: true },
+        },
+        required: ['kind'],
+      },
+      Vec: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          tags: { type: 'array', items: { enum: ['a', 'b'] } },
+          'z-index': { type: ['integer', 'null'] },
+        },
+        required: ['x'],
+      },
+    },
+  },
+};
+
+describe('generate', () => {
+  it('should generate Model unions, UnionByArray tuples and pipe handlers from OpenAPI', () => {
+    expect(generate(openapi, { source: 'openapi.json' })).toBe(
+      `// Generated by dismatch-codegen from openapi.json. Do not edit.
+import { createPipeHandlers } from 'dismatch';
+import type { Model, UnionByArray } from 'dismatch';
+
+/** A drawable shape. */
+export type ShapeVariants = [
+  Model<'circle', { radius: number; center?: Vec }, 'kind'>,
+  Model<'rect', { label?: string | null; width: number }, 'kind'>,
+];
+
+export type Shape = UnionByArray<ShapeVariants, 'kind'>;
+
+export const shapeOps = createPipeHandlers<Shape, 'kind'>('kind');
+
+export type Labelled = {
+  kind: string;
+  label?: string | null;
+};
+
+export type Vec = {
+  x: number;
+  tags?: ('a' | 'b')[];
+  'z-index'?: number | null;
+};
+`,
+    );
+  });
+
+  it('should find the discriminant from const properties without a discriminator', () => {
+    const output = generate({
+      $defs: {
+        Event: {
+          oneOf: [
+            {
+              type: 'object',
+              properties: {
+                type: { const: 'started' },
+                at: { type: 'string' },
+              },
+              required: ['type', 'at'],
+            },
+            {
+              type: 'object',
+              properties: { type: { enum: ['stopped'] } },
+              required: ['type'],
+            },
+          ],
+        },
+      },
+    });
+
+    expect(output).toContain(
+      `export type EventVariants = [
+  Model<'started', { at: string }>,
+  Model<'stopped'>,
+];
+
+export type Event = UnionByArray<EventVariants>;
+
+export const eventOps = createPipeHandlers<Event, 'type'>('type');`,
+    );
+  });
+
+  it('should bind pipe handlers to the discriminant when variants share another literal', () => {
+    const output = generate({
+      $defs: {
+        Message: {
+          discriminator: { propertyName: 'kind' },
+          oneOf: [
+            {
+              type: 'object',
+              properties: {
+                kind: { const: 'text' },
+                version: { const: 2 },
+                body: { type: 'string' },
+              },
+              required: ['kind', 'version', 'body'],
+            },
+            {
+              type: 'object',
+              properties: { kind: { const: 'ping' }, version: { const: 2 } },
+              required: ['kind', 'version'],
+            },
+          ],
+        },
+      },
+    });
+
+    expect(output).toContain(
+      `export type MessageVariants = [
+  Model<'text', { version: 2; body: string }, 'kind'>,
+  Model<'ping', { version: 2 }, 'kind'>,
+];
+
+export type Message = UnionByArray<MessageVariants, 'kind'>;
+
+export const messageOps = createPipeHandlers<Message, 'kind'>('kind');`,
+    );
+  });
+
+  it('should round-trip the output of toJSONSchema', () => {
+    type Job =
+      | Model<'queued', { id: string; priority?: number }, 'status'>
+      | Model<'idle', {}, 'status'>;
+
+    const JobSchema = unionSchema<Job>('status', {
+      queued: object({ id: string(), priority: optional(number()) }),
+      idle: object({}),
+    });
+
+    expect(generate(toJSONSchema(JobSchema), { rootName: 'Job' })).toBe(
+      `// Generated by dismatch-codegen. Do not edit.
+import { createPipeHandlers } from 'dismatch';
+import type { Model, UnionByArray } from 'dismatch';
+
+export type JobVariants = [
+  Model<'queued', { id: string; priority?: number }, 'status'>,
+  Model<'idle', {}, 'status'>,
+];
+
+export type Job = UnionByArray<JobVariants, 'status'>;
+
+export const jobOps = createPipeHandlers<Job, 'status'>('status');
+`,
+    );
+  });
+
+  it('should name a root union after its title, then Root', () => {
+    const root = { oneOf: [{ properties: { type: { const: 'a' } } }] };
+
+    expect(generate({ ...root, title: 'Letter' })).toContain(
+      'export type Letter = UnionByArray<LetterVariants>;',
+    );
+    expect(generate(root)).toContain(
+      'export type Root = UnionByArray<RootVariants>;',
+    );
+  });
+
+  it('should generate a plain union when members share no discriminant', () => {
+    const output = generate({
+      definitions: {
+        Id: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+      },
+    });
+
+    expect(output).toBe(
+      `// Generated by dismatch-codegen. Do not edit.
+
+export type Id = string | number;
+`,
+    );
+  });
+
+  it('should import from the given module', () => {
+    expect(generate(openapi, { importFrom: '../lib' })).toContain(
+      "import type { Model, UnionByArray } from '../lib';",
+    );
+  });
+
+  it('should be deterministic', () => {
+    expect(generate(openapi)).toBe(generate(structuredClone(openapi)));
+  });
+
+  it('should throw for unresolvable or remote references', () => {
+    expect(() =>
+      generate({ $defs: { A: { oneOf: [{ $ref: '#/$defs/B' }] } } }),
+    ).toThrow("Cannot resolve reference '#/$defs/B'");
+    expect(() => generate({ $defs: { A: { $ref: 'other.json#/A' } } })).toThrow(
+      "Only local references are supported, received 'other.json#/A'",
+    );
+  });
+
+  it('should throw for input that is not a schema object', () => {
+    expect(() => generate([])).toThrow(
+      'Expected an OpenAPI document or a JSON Schema object',
+    );
+  });
+});
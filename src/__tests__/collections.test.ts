@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countByVariant,
+  everyVariant,
+  findVariant,
+  groupBy,
+  mapVariants,
+  partitionByVariant,
+} from '../collections';
+import { createPipeHandlers } from '../unions';
+import { InvalidUnionError, UnhandledVariantError } from '../errors';
+import type { Model } from '../types';
+
+type Notification =
+  | Model<'email', { from: string; starred: boolean }>
+  | Model<'sms', { from: string; read: boolean }>
+  | Model<'push', { app: string; urgent: boolean }>;
+
+const email = { type: 'email', from: 'boss', starred: true } as Notification;
+const newsletter = {
+  type: 'email',
+  from: 'news',
+  starred: false,
+} as Notification;
+const sms = { type: 'sms', from: 'mum', read: false } as Notification;
+const push = { type: 'push', app: 'pager', urgent: true } as Notification;
+
+const inbox = [email, sms, newsletter, push];
+
+type Animal =
+  | Model<'dog', { name: string }, 'kind'>
+  | Model<'cat', { lives: number }, 'kind'>;
+
+const rex = { kind: 'dog', name: 'Rex' } as Animal;
+const tom = { kind: 'cat', lives: 9 } as Animal;
+
+describe('partitionByVariant', () => {
+  it('should split the array into narrowed arrays, keeping order', () => {
+    const { email: emails = [], push: pushes = [] } = partitionByVariant(inbox);
+
+    expect(emails).toEqual([email, newsletter]);
+    expect(emails.map((e) => e.starred)).toEqual([true, false]);
+    expect(pushes.map((p) => p.app)).toEqual(['pager']);
+  });
+
+  it('should omit variants that do not occur', () => {
+    expect(partitionByVariant([sms])).toEqual({ sms: [sms] });
+    expect(partitionByVariant([] as Notification[])).toEqual({});
+  });
+
+  it('should respect a custom discriminant', () => {
+    expect(partitionByVariant([rex, tom, rex], 'kind')).toEqual({
+      dog: [rex, rex],
+      cat: [tom],
+    });
+  });
+
+  it('should throw InvalidUnionError for invalid elements', () => {
+    expect(() => partitionByVariant([email, {} as Notification])).toThrow(
+      InvalidUnionError,
+    );
+  });
+});
+
+describe('countByVariant', () => {
+  it('should count each variant', () => {
+    expect(countByVariant(inbox)).toEqual({ email: 2, sms: 1, push: 1 });
+  });
+
+  it('should respect a custom discriminant', () => {
+    expect(countByVariant([rex, rex], 'kind')).toEqual({ dog: 2 });
+  });
+
+  it('should support nested discriminants', () => {
+    const events = [{ payload: rex }, { payload: tom }, { payload: tom }];
+    expect(countByVariant(events, ['payload', 'kind'])).toEqual({
+      dog: 1,
+      cat: 2,
+    });
+  });
+});
+
+describe('groupBy', () => {
+  const byImportance = groupBy(inbox);
+
+  it('should group by the key each handler returns', () => {
+    const groups = byImportance({
+      email: ({ starred }) => (starred ? 'important' : 'other'),
+      sms: () => 'other',
+      push: ({ urgent }) => (urgent ? 'important' : 'other'),
+    });
+
+    expect(groups).toEqual({
+      important: [email, push],
+      other: [sms, newsletter],
+    });
+  });
+
+  it('should respect a custom discriminant', () => {
+    const groups = groupBy(
+      [rex, tom],
+      'kind',
+    )({
+      dog: () => 'barks',
+      cat: () => 'meows',
+    });
+    expect(groups).toEqual({ barks: [rex], meows: [tom] });
+  });
+
+  it('should throw UnhandledVariantError when a handler is missing', () => {
+    expect(() => byImportance({ email: () => 'x' } as any)).toThrow(
+      UnhandledVariantError,
+    );
+  });
+});
+
+describe('findVariant', () => {
+  it('should return the first element of the variant, narrowed', () => {
+    const found = findVariant(inbox, 'email');
+    expect(found).toBe(email);
+    expect(found?.starred).toBe(true);
+  });
+
+  it('should return undefined when the variant does not occur', () => {
+    expect(findVariant([sms], 'push')).toBeUndefined();
+  });
+
+  it('should respect a custom discriminant', () => {
+    expect(findVariant([rex, tom], 'cat', 'kind')?.lives).toBe(9);
+  });
+});
+
+describe('everyVariant', () => {
+  it('should narrow the array when every element is of the variant', () => {
+    const selection = [email, newsletter] as Notification[];
+    if (everyVariant(selection, 'email')) {
+      expect(selection.map((e) => e.from)).toEqual(['boss', 'news']);
+    } else {
+      expect.unreachable('Expected only emails');
+    }
+  });
+
+  it('should return false when any element is of another variant', () => {
+    expect(everyVariant(inbox, 'email')).toBe(false);
+  });
+
+  it('should return true for an empty array', () => {
+    expect(everyVariant([] as Notification[], 'sms')).toBe(true);
+  });
+
+  it('should respect a custom discriminant', () => {
+    expect(everyVariant([rex, rex], 'dog', 'kind')).toBe(true);
+    expect(everyVariant([rex, tom], 'dog', 'kind')).toBe(false);
+  });
+});
+
+describe('mapVariants', () => {
+  it('should transform matching elements and keep the others', () => {
+    const result = mapVariants(inbox)({
+      sms: (n) => ({ ...n, read: true }),
+    });
+
+    expect(result).not.toBe(inbox);
+    expect(result[1]).toEqual({ ...sms, read: true });
+    expect(result[0]).toBe(email);
+    expect(result[3]).toBe(push);
+  });
+
+  it('should return the original array when no element changed', () => {
+    const items = [email, push];
+    expect(mapVariants(items)({ sms: (n) => ({ ...n, read: true }) })).toBe(
+      items,
+    );
+    expect(mapVariants(items)({ email: (n) => n })).toBe(items);
+  });
+
+  it('should accept readonly arrays', () => {
+    const items: readonly Notification[] = Object.freeze([email, sms]);
+    const result = mapVariants(items)({ sms: (n) => ({ ...n, read: true }) });
+    expect(result).toEqual([email, { ...sms, read: true }]);
+  });
+
+  it('should respect a custom discriminant', () => {
+    const result = mapVariants(
+      [rex, tom],
+      'kind',
+    )({
+      cat: ({ lives }) => ({ kind: 'cat' as const, lives: lives - 1 }),
+    });
+    expect(result).toEqual([rex, { kind: 'cat', lives: 8 }]);
+  });
+});
+
+describe('createPipeHandlers collection helpers', () => {
+  const notifOps = createPipeHandlers<Notification, 'type'>('type');
+  const animalOps = createPipeHandlers<Animal>('kind');
+
+  it('partitionByVariant and countByVariant: should accept the array', () => {
+    expect(notifOps.countByVariant(inbox)).toEqual({
+      email: 2,
+      sms: 1,
+      push: 1,
+    });
+    expect(animalOps.partitionByVariant([rex, tom])).toEqual({
+      dog: [rex],
+      cat: [tom],
+    });
+  });
+
+  it('groupBy: should take handlers first', () => {
+    const byLegs = animalOps.groupBy({ dog: () => 4, cat: () => 4 });
+    expect(byLegs([rex, tom])).toEqual({ 4: [rex, tom] });
+  });
+
+  it('findVariant and everyVariant: should take the variant first', () => {
+    const firstCat = animalOps.findVariant('cat');
+    const allDogs = animalOps.everyVariant('dog');
+
+    expect(firstCat([rex, tom])?.lives).toBe(9);
+    expect(allDogs([rex])).toBe(true);
+    expect(allDogs([rex, tom])).toBe(false);
+  });
+
+  it('mapVariants: should take handlers first and keep unchanged arrays', () => {
+    const markRead = notifOps.mapVariants({
+      sms: (n) => ({ ...n, read: true }),
+    });
+    const items = [email, push];
+
+    expect(markRead(items)).toBe(items);
+    expect(markRead([sms])).toEqual([{ ...sms, read: true }]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { compile } from '../compile';
+import { InvalidUnionError, UnhandledVariantError } from '../errors';
+import type { Model } from '../types';
+
+type Shape =
+  | { type: 'circle'; radius: number }
+  | { type: 'rectangle'; width: number; height: number };
+
+type Response =
+  Model<200, { body: string }, 'status'> | Model<404, {}, 'status'>;
+
+type Message = {
+  id: string;
+  payload:
+    Model<'created', { name: string }, 'kind'> | Model<'deleted', {}, 'kind'>;
+};
+
+const circle: Shape = { type: 'circle', radius: 1 } as Shape;
+const rectangle: Shape = { type: 'rectangle', width: 2, height: 3 } as Shape;
+
+describe('compile', () => {
+  it('should match every variant with the compiled handlers', () => {
+    const area = compile<Shape, number>(
+      {
+        circle: ({ radius }) => Math.PI * radius ** 2,
+        rectangle: ({ width, height }) => width * height,
+      },
+      'type',
+    );
+    expect([circle, rectangle].map(area)).toEqual([Math.PI, 6]);
+  });
+
+  it('should infer the union from the expected function type', () => {
+    const name: (shape: Shape) => string = compile({
+      circle: () => 'circle',
+      rectangle: () => 'rectangle',
+    });
+    expect(name(rectangle)).toBe('rectangle');
+  });
+
+  it('should fall back to Default', () => {
+    const isRound = compile<Shape, boolean>({
+      circle: () => true,
+      Default: () => false,
+    });
+    expect(isRound(circle)).toBe(true);
+    expect(isRound(rectangle)).toBe(false);
+  });
+
+  it('should dispatch on number, boolean and nested discriminants', () => {
+    const body = compile<Response, string, 'status'>(
+      { 200: ({ body }) => body, 404: () => 'not found' },
+      'status',
+    );
+    expect(body({ status: 200, body: 'ok' })).toBe('ok');
+    expect(body({ status: 404 })).toBe('not found');
+
+    const ok = compile<{ ok: true } | { ok: false }, number, 'ok'>(
+      { true: () => 1, false: () => 0 },
+      'ok',
+    );
+    expect(ok({ ok: false })).toBe(0);
+
+    const label = compile<Message, string, ['payload', 'kind']>(
+      { created: ({ name }) => name, deleted: () => '-' },
+      ['payload', 'kind'],
+    );
+    expect(label({ id: '1', payload: { kind: 'created', name: 'a' } })).toBe(
+      'a',
+    );
+  });
+
+  it('should not find handlers on the prototype', () => {
+    const fn = compile<Shape, number>({ circle: () => 1 } as any, 'type');
+    expect(() => fn({ type: 'toString' } as any)).toThrow(
+      UnhandledVariantError,
+    );
+  });
+
+  it('should reject handlers that are not functions when compiling', () => {
+    expect(() =>
+      compile<Shape, number>({ circle: 1, rectangle: () => 2 } as any, 'type'),
+    ).toThrow("Handler for 'circle' must be a function, received number");
+  });
+
+  it('should throw the errors match throws', () => {
+    const area = compile<Shape, number>({ circle: () => 1 } as any, 'type');
+    expect(() => area(null as any)).toThrow(InvalidUnionError);
+    try {
+      area({ type: 'hexagon' } as any);
+      expect.unreachable();
+    } catch (err: any) {
+      expect(err).toBeInstanceOf(UnhandledVariantError);
+      expect(err.received).toBe('hexagon');
+      expect(err.handlers).toEqual(['circle']);
+    }
+
+    const withDefault = compile<Shape, number>({ Default: () => 0 }, 'type');
+    expect(() => withDefault({} as any)).toThrow(InvalidUnionError);
+  });
+
+  it('should start error stacks at the call site', () => {
+    const area = compile<Shape, number>({ circle: () => 1 } as any, 'type');
+    function callSite() {
+      try {
+        area({ type: 'hexagon' } as any);
+      } catch (err: any) {
+        return err;
+      }
+    }
+    expect(callSite().stack).toContain('callSite');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { defineUnion } from '../define';
+import type { Model } from '../types';
+
+type Shape =
+  | Model<'circle', { radius: number }>
+  | Model<'rectangle', { width: number; height: number }>
+  | Model<'empty'>;
+
+type Animal =
+  | Model<'dog', { name: string }, 'kind'>
+  | Model<'cat', { lives: number }, 'kind'>;
+
+const Shape = defineUnion<Shape>('type', ['circle', 'rectangle', 'empty']);
+const Animal = defineUnion<Animal>('kind', ['dog', 'cat']);
+
+describe('defineUnion', () => {
+  describe('constructors', () => {
+    it('should build a variant with the discriminant filled in', () => {
+      expect(Shape.circle({ radius: 5 })).toEqual({
+        type: 'circle',
+        radius: 5,
+      });
+    });
+
+    it('should build a variant with several fields', () => {
+      expect(Shape.rectangle({ width: 2, height: 3 })).toEqual({
+        type: 'rectangle',
+        width: 2,
+        height: 3,
+      });
+    });
+
+    it('should allow omitting the payload for variants without data', () => {
+      expect(Shape.empty()).toEqual({ type: 'empty' });
+    });
+
+    it('should not let the payload override the discriminant', () => {
+      const value = Shape.circle({ radius: 1, type: 'rectangle' } as any);
+      expect(value.type).toBe('circle');
+    });
+
+    it('should use a custom discriminant', () => {
+      expect(Animal.dog({ name: 'Rex' })).toEqual({ kind: 'dog', name: 'Rex' });
+    });
+  });
+
+  describe('metadata', () => {
+    it('should expose the discriminant key', () => {
+      expect(Shape.discriminant).toBe('type');
+      expect(Animal.discriminant).toBe('kind');
+    });
+
+    it('should expose the variants in declaration order', () => {
+      expect(Shape.variants).toEqual(['circle', 'rectangle', 'empty']);
+    });
+
+    it('should freeze the variants list', () => {
+      expect(Object.isFrozen(Shape.variants)).toBe(true);
+    });
+
+    it('should not share the caller array', () => {
+      const names: ['dog', 'cat'] = ['dog', 'cat'];
+      const def = defineUnion<Animal>('kind', names);
+      names.push('dog');
+      expect(def.variants).toEqual(['dog', 'cat']);
+    });
+  });
+
+  describe('bound helpers', () => {
+    const circle: Shape = Shape.circle({ radius: 5 });
+    const cat: Animal = Animal.cat({ lives: 9 });
+
+    it('is: should narrow to the requested variant', () => {
+      if (Shape.is(circle, 'circle')) {
+        expect(circle.radius).toBe(5);
+      } else {
+        expect.unreachable('Expected circle variant');
+      }
+      expect(Shape.is(circle, 'rectangle')).toBe(false);
+    });
+
+    it('is: should use the bound discriminant', () => {
+      expect(Animal.is(cat, 'cat')).toBe(true);
+    });
+
+    it('match: should dispatch with the bound discriminant', () => {
+      const label = Animal.match(cat)({
+        dog: ({ name }) => name,
+        cat: ({ lives }) => `${lives} lives`,
+      });
+      expect(label).toBe('9 lives');
+    });
+
+    it('matchWithDefault: should fall back to Default', () => {
+      const label = Shape.matchWithDefault(circle)({
+        rectangle: () => 'rect',
+        Default: () => 'other',
+      });
+      expect(label).toBe('other');
+    });
+
+    it('map: should transform with constructors instead of literals', () => {
+      const result = Shape.map(circle)({
+        circle: ({ radius }) => Shape.circle({ radius: radius * 2 }),
+      });
+      expect(result).toEqual({ type: 'circle', radius: 10 });
+    });
+
+    it('mapAll: should transform every variant', () => {
+      const result = Animal.mapAll(cat)({
+        dog: ({ name }) => Animal.dog({ name: name.toUpperCase() }),
+        cat: ({ lives }) => Animal.cat({ lives: lives - 1 }),
+      });
+      expect(result).toEqual({ kind: 'cat', lives: 8 });
+    });
+
+    it('should iterate variants at runtime', () => {
+      const labels = Shape.variants.map((name) => name.toUpperCase());
+      expect(labels).toEqual(['CIRCLE', 'RECTANGLE', 'EMPTY']);
+    });
+  });
+
+  it('should throw when a variant name collides with a bound helper', () => {
+    type Bad = Model<'match'> | Model<'ok'>;
+    expect(() => defineUnion<Bad>('type', ['match', 'ok'])).toThrow(
+      "Variant name 'match' is reserved!",
+    );
+  });
+
+  it('should require every variant', () => {
+    // @ts-expect-error 'empty' is missing
+    const partial = defineUnion<Shape>('type', ['circle', 'rectangle']);
+    expect(partial.variants).toHaveLength(2);
+  });
+
+  it('should throw when a variant is listed twice', () => {
+    expect(() => defineUnion<Animal>('kind', ['dog', 'dog'] as any)).toThrow(
+      "Variant name 'dog' is listed twice!",
+    );
+  });
+});
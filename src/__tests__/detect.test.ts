@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { detectDiscriminant } from '../detect';
+import {
+  match,
+  matchWithDefault,
+  map,
+  is,
+  isOneOf,
+  createPipeHandlers,
+} from '../unions';
+import { partitionByVariant } from '../collections';
+import { InvalidUnionError } from '../errors';
+import type { DefaultDiscriminant } from '../types';
+
+type Animal =
+  | { kind: 'dog'; name: string; good: boolean }
+  | { kind: 'cat'; name: string; lives: number };
+
+type Shape =
+  | { type: 'circle'; radius: number; label: string }
+  | { type: 'rect'; width: number; label: string };
+
+const rex = { kind: 'dog', name: 'Rex', good: true } as Animal;
+
+describe('DefaultDiscriminant', () => {
+  it('should be `type` for unions keyed by `type`', () => {
+    const type: DefaultDiscriminant<Shape> = 'type';
+    expect(type).toBe('type');
+  });
+
+  it('should ask for the key of unions keyed elsewhere', () => {
+    const message: DefaultDiscriminant<Animal> =
+      'Not keyed by type, pass the discriminant: kind';
+    // @ts-expect-error `kind` has to be passed explicitly
+    const kind: DefaultDiscriminant<Animal> = 'kind';
+    expect([message, kind]).toHaveLength(2);
+  });
+});
+
+describe('default discriminant', () => {
+  const rect = { type: 'rect', width: 2, label: 'circle' } as Shape;
+
+  it('should only look at `type`', () => {
+    expect(is(rect, 'circle')).toBe(false);
+    expect(isOneOf(rect, ['circle'])).toBe(false);
+    expect(
+      matchWithDefault(rect)({
+        circle: () => 'circle',
+        Default: () => 'other',
+      }),
+    ).toBe('other');
+    expect(map(rect)({ circle: (circle) => ({ ...circle, radius: 2 }) })).toBe(
+      rect,
+    );
+    expect(
+      createPipeHandlers<Shape>().match({
+        circle: () => 'circle',
+        rect: () => 'rect',
+      })(rect),
+    ).toBe('rect');
+  });
+
+  it('should require the key for unions keyed elsewhere', () => {
+    // @ts-expect-error pass 'kind'
+    expect(() => match(rex)({ dog: () => 0, cat: () => 1 })).toThrow(
+      InvalidUnionError,
+    );
+    // @ts-expect-error pass 'kind'
+    createPipeHandlers<Animal>();
+
+    const admin = { kind: 'user', role: 'admin' } as
+      { kind: 'user'; role: string } | { kind: 'admin'; role: string };
+    expect(
+      match(admin, 'kind')({ user: () => 'user', admin: () => 'admin' }),
+    ).toBe('user');
+    expect(
+      partitionByVariant(
+        [
+          { kind: 'dog', id: 'a' },
+          { kind: 'cat', id: 'b' },
+        ] as const,
+        'kind',
+      ).dog,
+    ).toHaveLength(1);
+  });
+
+  it('should reject input without a `type` eagerly', () => {
+    expect(() => match({ kind: 'dog' } as any)({})).toThrow(InvalidUnionError);
+  });
+});
+
+describe('detectDiscriminant', () => {
+  it('should find the key every value holds a literal under', () => {
+    expect(
+      detectDiscriminant([
+        { kind: 'circle', radius: 1 },
+        { kind: 'square', side: 2 },
+      ]),
+    ).toBe('kind');
+  });
+
+  it('should ignore keys no two values share once there are enough values', () => {
+    const shapes = [
+      { kind: 'circle', id: 'a' },
+      { kind: 'square', id: 'b' },
+      { kind: 'circle', id: 'c' },
+    ];
+    expect(detectDiscriminant(shapes)).toBe('kind');
+    expect(detectDiscriminant(shapes.slice(0, 2))).toBeUndefined();
+  });
+
+  it('should prefer `type`', () => {
+    expect(
+      detectDiscriminant([
+        { type: 'a', kind: 'x' },
+        { type: 'b', kind: 'y' },
+      ]),
+    ).toBe('type');
+  });
+
+  it('should return undefined for values that are not unions', () => {
+    expect(detectDiscriminant([])).toBeUndefined();
+    expect(detectDiscriminant([1, 2])).toBeUndefined();
+    expect(detectDiscriminant([{ nested: {} }])).toBeUndefined();
+  });
+});
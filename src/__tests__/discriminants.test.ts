@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPipeHandlers,
+  is,
+  isUnion,
+  map,
+  match,
+  matchWithDefault,
+} from '../unions';
+import { matchN } from '../tuples';
+import { UnhandledVariantError } from '../errors';
+import type { Model, TakeDiscriminant } from '../types';
+
+type Response =
+  | Model<200, { body: string }, 'status'>
+  | Model<404, {}, 'status'>
+  | Model<500, { error: string }, 'status'>;
+
+type Result =
+  Model<true, { value: number }, 'ok'> | Model<false, { error: string }, 'ok'>;
+
+const CIRCLE = Symbol('circle');
+const SQUARE = Symbol('square');
+
+type Shape =
+  | Model<typeof CIRCLE, { radius: number }>
+  | Model<typeof SQUARE, { side: number }>;
+
+const found = { status: 200, body: 'hello' } as Response;
+const missing = { status: 404 } as Response;
+const failed = { status: 500, error: 'boom' } as Response;
+
+const success = { ok: true, value: 42 } as Result;
+const failure = { ok: false, error: 'boom' } as Result;
+
+const circle = { type: CIRCLE, radius: 2 } as Shape;
+const square = { type: SQUARE, side: 3 } as Shape;
+
+describe('number discriminants', () => {
+  it('isUnion: should accept a number at the discriminant key', () => {
+    expect(isUnion(found, 'status')).toBe(true);
+  });
+
+  it('is: should compare numeric values', () => {
+    expect(is(found, 200, 'status')).toBe(true);
+    expect(is(found, 404, 'status')).toBe(false);
+  });
+
+  it('match: should dispatch on numeric handler keys', () => {
+    const summary = (response: Response) =>
+      match(
+        response,
+        'status',
+      )({
+        200: ({ body }) => body,
+        404: () => 'not found',
+        500: ({ error }) => error,
+      });
+
+    expect(summary(found)).toBe('hello');
+    expect(summary(missing)).toBe('not found');
+    expect(summary(failed)).toBe('boom');
+  });
+
+  it('matchWithDefault: should fall back for unhandled numbers', () => {
+    const isError = (response: Response) =>
+      matchWithDefault(
+        response,
+        'status',
+      )({
+        500: () => true,
+        Default: () => false,
+      });
+
+    expect(isError(failed)).toBe(true);
+    expect(isError(missing)).toBe(false);
+  });
+
+  it('should report the unhandled number in errors', () => {
+    expect(() => match(missing, 'status')({} as any)).toThrow(
+      new UnhandledVariantError({
+        discriminant: 'status',
+        received: 404,
+        preview: '{ status: 404 }',
+        handlers: [],
+      }).message,
+    );
+  });
+});
+
+describe('boolean discriminants', () => {
+  it('isUnion: should accept a boolean at the discriminant key', () => {
+    expect(isUnion(success, 'ok')).toBe(true);
+    expect(isUnion(failure, 'ok')).toBe(true);
+  });
+
+  it('is: should compare boolean values and narrow', () => {
+    const result = failure as Result;
+    if (is(result, false, 'ok')) {
+      expect(result.error).toBe('boom');
+    } else {
+      expect.unreachable('Expected failure');
+    }
+    expect(is(success, true, 'ok')).toBe(true);
+  });
+
+  it("match: should dispatch to 'true' and 'false' handler keys", () => {
+    const unwrap = (result: Result) =>
+      match(
+        result,
+        'ok',
+      )({
+        true: ({ value }) => String(value),
+        false: ({ error }) => error,
+      });
+
+    expect(unwrap(success)).toBe('42');
+    expect(unwrap(failure)).toBe('boom');
+  });
+
+  it('map: should transform the matching boolean variant', () => {
+    const doubled = map(
+      success,
+      'ok',
+    )({
+      true: ({ value }) => ({ ok: true as const, value: value * 2 }),
+    });
+    expect(doubled).toEqual({ ok: true, value: 84 });
+    expect(map(failure, 'ok')({ true: (v) => v })).toBe(failure);
+  });
+
+  it('createPipeHandlers: should infer the boolean discriminant', () => {
+    const resultOps = createPipeHandlers<Result>('ok');
+    const value = resultOps.matchWithDefault({
+      true: ({ value }) => value,
+      Default: () => 0,
+    });
+
+    expect(value(success)).toBe(42);
+    expect(value(failure)).toBe(0);
+  });
+});
+
+describe('symbol discriminants', () => {
+  it('isUnion: should accept a symbol at the discriminant key', () => {
+    expect(isUnion(circle)).toBe(true);
+  });
+
+  it('is: should compare symbols by identity', () => {
+    expect(is(circle, CIRCLE)).toBe(true);
+    expect(is(circle, SQUARE)).toBe(false);
+  });
+
+  it('match: should dispatch on symbol handler keys', () => {
+    const area = (shape: Shape) =>
+      match(shape)({
+        [CIRCLE]: ({ radius }) => radius ** 2,
+        [SQUARE]: ({ side }) => side ** 2,
+      });
+
+    expect(area(circle)).toBe(4);
+    expect(area(square)).toBe(9);
+  });
+
+  it('should list symbol handlers in errors', () => {
+    try {
+      match(square)({ [CIRCLE]: () => 0 } as any);
+      expect.unreachable('Expected match to throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(UnhandledVariantError);
+      expect((err as UnhandledVariantError).received).toBe(SQUARE);
+      expect((err as UnhandledVariantError).handlers).toEqual([
+        'Symbol(circle)',
+      ]);
+    }
+  });
+});
+
+describe('TakeDiscriminant', () => {
+  it('should accept literal number, boolean and symbol keys and reject wide ones', () => {
+    type Wide = { id: number; name: string; tag: symbol; status: 200 | 404 };
+
+    const number: TakeDiscriminant<Response> = 'status';
+    const boolean: TakeDiscriminant<Result> = 'ok';
+    const symbol: TakeDiscriminant<Shape> = 'type';
+    const literal: TakeDiscriminant<Wide> = 'status';
+    // @ts-expect-error wide `number` is not a discriminant
+    const wide: TakeDiscriminant<Wide> = 'id';
+
+    expect([number, boolean, symbol, literal, wide]).toHaveLength(5);
+  });
+});
+
+describe('matchN', () => {
+  it('should combine number and boolean discriminants in keys', () => {
+    const summarize = (response: Response, result: Result) =>
+      matchN(
+        [response, result],
+        ['status', 'ok'],
+      )({
+        '200:true': (_, { value }) => `ok ${value}`,
+        '200:false': (_, { error }) => `failed: ${error}`,
+        '_:_': ({ status }) => `status ${status}`,
+      });
+
+    expect(summarize(found, success)).toBe('ok 42');
+    expect(summarize(found, failure)).toBe('failed: boom');
+    expect(summarize(missing, success)).toBe('status 404');
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import { createUnionEmitter } from '../emitter';
+import { InvalidUnionError, TimeoutError } from '../errors';
+import type { Model } from '../types';
+
+type OrderEvent =
+  | Model<'order.created', { id: string }>
+  | Model<'order.shipped', { id: string; carrier: string }>
+  | Model<'invoice.paid', { amount: number }>;
+
+const created = { type: 'order.created', id: 'o1' } as const;
+const shipped = { type: 'order.shipped', id: 'o1', carrier: 'DHL' } as const;
+const paid = { type: 'invoice.paid', amount: 10 } as const;
+
+describe('createUnionEmitter', () => {
+  it('should call handlers subscribed to the event variant, narrowed', () => {
+    const events = createUnionEmitter<OrderEvent>('type');
+    const carriers: string[] = [];
+    events.on('order.shipped', ({ carrier }) => carriers.push(carrier));
+
+    events.emit(created);
+    events.emit(shipped);
+
+    expect(carriers).toEqual(['DHL']);
+  });
+
+  it('should match wildcard patterns by prefix', () => {
+    const events = createUnionEmitter<OrderEvent>('type');
+    const ids: string[] = [];
+    const all: string[] = [];
+    events.on('order.*', ({ id }) => ids.push(id));
+    events.on('*', ({ type }) => all.push(type));
+
+    events.emit(created);
+    events.emit(paid);
+    events.emit(shipped);
+
+    expect(ids).toEqual(['o1', 'o1']);
+    expect(all).toEqual(['order.created', 'invoice.paid', 'order.shipped']);
+  });
+
+  it('should call every handler in subscription order', () => {
+    const events = createUnionEmitter<OrderEvent>('type');
+    const calls: string[] = [];
+    events.onAny(() => calls.push('any'));
+    events.on('order.created', () => calls.push('created'));
+    events.on('order.*', () => calls.push('order'));
+
+    events.emit(created);
+    expect(calls).toEqual(['any', 'created', 'order']);
+  });
+
+  it('should unsubscribe with the returned function or off', () => {
+    const events = createUnionEmitter<OrderEvent>('type');
+    const calls: string[] = [];
+    const onPaid = () => calls.push('off');
+    const unsubscribe = events.on('invoice.paid', () => calls.push('returned'));
+    events.on('invoice.paid', onPaid);
+
+    unsubscribe();
+    events.off('invoice.paid', onPaid);
+    events.emit(paid);
+
+    expect(calls).toEqual([]);
+  });
+
+  it('should call once handlers a single time', () => {
+    const events = createUnionEmitter<OrderEvent>('type');
+    const amounts: number[] = [];
+    events.once('invoice.paid', ({ amount }) => amounts.push(amount));
+
+    events.emit(paid);
+    events.emit({ type: 'invoice.paid', amount: 20 });
+
+    expect(amounts).toEqual([10]);
+  });
+
+  it('should call onAny handlers with every event', () => {
+    const events = createUnionEmitter<OrderEvent>('type');
+    const seen: OrderEvent[] = [];
+    const unsubscribe = events.onAny((event) => seen.push(event));
+
+    events.emit(created);
+    events.emit(paid);
+    unsubscribe();
+    events.emit(shipped);
+
+    expect(seen).toEqual([created, paid]);
+  });
+
+  it('should call onAny handlers for number, boolean and symbol events', () => {
+    const ping = Symbol('ping');
+    type Signal =
+      | Model<404, {}, 'code'>
+      | Model<true, {}, 'code'>
+      | Model<typeof ping, {}, 'code'>;
+    const events = createUnionEmitter<Signal>('code');
+    const seen: unknown[] = [];
+    events.onAny(({ code }) => seen.push(code));
+
+    events.emit({ code: 404 });
+    events.emit({ code: true });
+    events.emit({ code: ping });
+    expect(seen).toEqual([404, true, ping]);
+  });
+
+  it('should support custom discriminants', () => {
+    type Signal =
+      Model<'up', { by: number }, 'kind'> | Model<'down', {}, 'kind'>;
+    const signals = createUnionEmitter<Signal>('kind');
+    const seen: number[] = [];
+    signals.on('up', ({ by }) => seen.push(by));
+
+    signals.emit({ kind: 'up', by: 2 });
+    signals.emit({ kind: 'down' });
+
+    expect(seen).toEqual([2]);
+  });
+
+  it('should throw InvalidUnionError when emitting an invalid event', () => {
+    const events = createUnionEmitter<OrderEvent>('type');
+    try {
+      events.emit({ kind: 'order.created' } as any);
+      expect.unreachable('Expected emit to throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(InvalidUnionError);
+      expect((err as Error).stack).not.toMatch(/at guard/);
+    }
+  });
+
+  it('should reject unknown event types at compile time', () => {
+    const events = createUnionEmitter<OrderEvent>('type');
+    // @ts-expect-error `order.deleted` is not an event type
+    events.on('order.deleted', () => {});
+    // @ts-expect-error `amount` only exists on invoice events
+    events.on('order.*', ({ amount }) => amount);
+    expect(() => events.emit(paid)).not.toThrow();
+  });
+
+  describe('waitFor', () => {
+    it('should resolve with the next matching event', async () => {
+      const events = createUnionEmitter<OrderEvent>('type');
+      const next = events.waitFor('order.shipped');
+
+      events.emit(created);
+      events.emit(shipped);
+
+      const { carrier } = await next;
+      expect(carrier).toBe('DHL');
+    });
+
+    it('should skip events that fail the predicate', async () => {
+      const events = createUnionEmitter<OrderEvent>('type');
+      const large = events.waitFor('invoice.paid', ({ amount }) => amount > 15);
+
+      events.emit(paid);
+      events.emit({ type: 'invoice.paid', amount: 20 });
+
+      await expect(large).resolves.toEqual({
+        type: 'invoice.paid',
+        amount: 20,
+      });
+    });
+
+    it('should unsubscribe once settled', async () => {
+      const events = createUnionEmitter<OrderEvent>('type');
+      let checks = 0;
+      const next = events.waitFor('order.*', () => ++checks > 0);
+
+      events.emit(created);
+      events.emit(shipped);
+
+      await next;
+      expect(checks).toBe(1);
+    });
+
+    it('should reject with a TimeoutError once the timeout elapses', async () => {
+      const events = createUnionEmitter<OrderEvent>('type');
+      const next = events.waitFor('invoice.paid', undefined, { timeout: 5 });
+
+      await expect(next).rejects.toBeInstanceOf(TimeoutError);
+      await expect(next).rejects.toMatchObject({
+        received: 'invoice.paid',
+        timeout: 5,
+      });
+    });
+
+    it('should reject with the reason when the signal aborts', async () => {
+      const events = createUnionEmitter<OrderEvent>('type');
+      const controller = new AbortController();
+      const next = events.waitFor('invoice.paid', undefined, {
+        signal: controller.signal,
+      });
+
+      controller.abort(new Error('cancelled'));
+      await expect(next).rejects.toThrow('cancelled');
+
+      const aborted = events.waitFor('invoice.paid', undefined, {
+        signal: controller.signal,
+      });
+      await expect(aborted).rejects.toThrow('cancelled');
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DismatchError,
+  InvalidUnionError,
+  UnhandledVariantError,
+  ParseError,
+  errorDetails,
+  setErrorMessages,
+} from '../errors';
+import { match, mapAll, createPipeHandlers } from '../unions';
+import { unionSchema, object, number } from '../schema';
+
+type Shape =
+  | { type: 'circle'; radius: number }
+  | { type: 'rectangle'; width: number; height: number };
+
+function thrown(fn: () => unknown): any {
+  try {
+    fn();
+  } catch (err) {
+    return err;
+  }
+  return expect.unreachable('Expected function to throw');
+}
+
+afterEach(() => setErrorMessages());
+
+describe('errorDetails', () => {
+  it('should redact every value except the discriminant', () => {
+    expect(
+      errorDetails(
+        { type: 'circle', radius: 5, owner: { email: 'a@b.c' }, tags: [] },
+        'type',
+      ),
+    ).toEqual({
+      discriminant: 'type',
+      received: 'circle',
+      preview: "{ type: 'circle', radius: number, owner: object, tags: array }",
+    });
+  });
+
+  it('should describe non-object input by its type only', () => {
+    expect(errorDetails('secret', 'type')).toEqual({
+      discriminant: 'type',
+      received: undefined,
+      preview: 'string',
+    });
+    expect(errorDetails(null, 'type').preview).toBe('null');
+  });
+
+  it('should truncate long objects', () => {
+    const input = Object.fromEntries(
+      Array.from({ length: 10 }, (_, i) => [`f${i}`, i]),
+    );
+    expect(errorDetails(input, 'type').preview).toBe(
+      '{ f0: number, f1: number, f2: number, f3: number, f4: number, f5: number, f6: number, f7: number, … }',
+    );
+  });
+});
+
+describe('InvalidUnionError', () => {
+  it('should be thrown for input without the discriminant', () => {
+    const err = thrown(() => match({ kind: 'circle' } as any));
+    expect(err).toBeInstanceOf(InvalidUnionError);
+    expect(err).toBeInstanceOf(DismatchError);
+    expect(err).toBeInstanceOf(Error);
+    expect(err.name).toBe('InvalidUnionError');
+    expect(err.discriminant).toBe('type');
+    expect(err.received).toBeUndefined();
+    expect(err.preview).toBe('{ kind: string }');
+    expect(err.message).toBe(
+      "Data is not of type discriminated union! Discriminant: 'type', received: { kind: string }",
+    );
+  });
+
+  it('should carry a custom discriminant', () => {
+    const err = thrown(() => match({ type: 'dog' } as any, 'kind'));
+    expect(err.discriminant).toBe('kind');
+  });
+
+  it('should start the stack at the call site', () => {
+    function callSite() {
+      return thrown(() => match(null as any));
+    }
+    const err = callSite();
+    expect(err.stack).toContain('callSite');
+    expect(err.stack).not.toMatch(/at guard/);
+  });
+});
+
+describe('UnhandledVariantError', () => {
+  const hexagon = { type: 'hexagon', sides: 6 } as any as Shape;
+
+  it('should report the unhandled value and the available handlers', () => {
+    const err = thrown(() =>
+      match(hexagon)({ circle: () => 1, rectangle: () => 2 }),
+    );
+    expect(err).toBeInstanceOf(UnhandledVariantError);
+    expect(err).toBeInstanceOf(DismatchError);
+    expect(err.name).toBe('UnhandledVariantError');
+    expect(err.discriminant).toBe('type');
+    expect(err.received).toBe('hexagon');
+    expect(err.handlers).toEqual(['circle', 'rectangle']);
+    expect(err.preview).toBe("{ type: 'hexagon', sides: number }");
+    expect(err.message).toBe(
+      "Matcher incomplete! No handler for 'hexagon' at 'type'. Available handlers: circle, rectangle",
+    );
+  });
+
+  it('should be thrown by mapAll and pipe handlers', () => {
+    expect(thrown(() => mapAll(hexagon)({} as any))).toBeInstanceOf(
+      UnhandledVariantError,
+    );
+    const fn = createPipeHandlers<Shape>('type').match({} as any);
+    expect(thrown(() => fn(hexagon)).message).toContain('(none)');
+  });
+
+  it('should not include the dispatcher in the stack', () => {
+    const err = thrown(() => match(hexagon)({} as any));
+    expect(err.stack).not.toMatch(/at dispatch/);
+  });
+});
+
+describe('ParseError', () => {
+  const ShapeSchema = unionSchema<Shape>('type', {
+    circle: object({ radius: number() }),
+    rectangle: object({ width: number(), height: number() }),
+  });
+
+  it('should extend DismatchError and carry the input context', () => {
+    const err = thrown(() => ShapeSchema.parse({ type: 'circle' }));
+    expect(err).toBeInstanceOf(ParseError);
+    expect(err).toBeInstanceOf(DismatchError);
+    expect(err.received).toBe('circle');
+    expect(err.preview).toBe("{ type: 'circle' }");
+    expect(err.issues).toHaveLength(1);
+  });
+});
+
+describe('setErrorMessages', () => {
+  it('should replace individual message builders', () => {
+    setErrorMessages({
+      unhandledVariant: ({ received, handlers }) =>
+        `Kein Handler für ${String(received)} (${handlers.length})`,
+    });
+    const err = thrown(() =>
+      match({ type: 'x' } as any as Shape)({ circle: () => 1 } as any),
+    );
+    expect(err.message).toBe('Kein Handler für x (1)');
+    expect(thrown(() => match(null as any)).message).toContain(
+      'Data is not of type discriminated union!',
+    );
+  });
+
+  it('should be used for parse errors', () => {
+    setErrorMessages({ parse: ({ issues }) => `${issues.length} Fehler` });
+    const Schema = unionSchema<Shape>('type', {
+      circle: object({ radius: number() }),
+      rectangle: object({ width: number(), height: number() }),
+    });
+    expect(thrown(() => Schema.parse({})).message).toBe('1 Fehler');
+  });
+
+  it('should restore the defaults when called without arguments', () => {
+    setErrorMessages({ invalidUnion: () => 'custom' });
+    setErrorMessages();
+    expect(thrown(() => match(null as any)).message).toContain(
+      'Data is not of type discriminated union!',
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import { generateGraphQL } from '../graphql';
+
+const schema = `
+  schema { query: Query }
+
+  type Query {
+    search(term: String!): [SearchResult!]!
+    node(id: ID!): Node
+  }
+
+  "Anything with an id."
+  interface Node {
+    id: ID!
+  }
+
+  enum Role { ADMIN USER }
+
+  scalar DateTime
+
+  type User implements Node @key(fields: "id") {
+    id: ID!
+    name: String
+    role: Role!
+    friends: [User!]!
+    joined: DateTime
+  }
+
+  """
+  A blog post.
+  """
+  type Post implements Node {
+    id: ID!
+    title: String!
+    author: User!
+  }
+
+  type Ad {
+    url: String!
+  }
+
+  union SearchResult = | User | Post | Ad
+
+  input Filter { term: String = "x" }
+`;
+
+describe('generateGraphQL', () => {
+  it('should generate __typename unions and pipe handlers for unions and interfaces', () => {
+    expect(generateGraphQL(schema, { source: 'schema.graphql' })).toBe(
+      `// Generated by dismatch-codegen from schema.graphql. Do not edit.
+import { createPipeHandlers } from 'dismatch';
+import type { Model, UnionByArray } from 'dismatch';
+
+/** Anything with an id. */
+export type NodeVariants = [
+  User,
+  Post,
+];
+
+export type Node = UnionByArray<NodeVariants, '__typename'>;
+
+export const nodeOps = createPipeHandlers<Node, '__typename'>('__typename');
+
+export type Role = 'ADMIN' | 'USER';
+
+export type User = Model<'User', { id: string; name: string | null; role: Role; friends: User[]; joined: unknown | null }, '__typename'>;
+
+/** A blog post. */
+export type Post = Model<'Post', { id: string; title: string; author: User }, '__typename'>;
+
+export type Ad = Model<'Ad', { url: string }, '__typename'>;
+
+export type SearchResultVariants = [
+  User,
+  Post,
+  Ad,
+];
+
+export type SearchResult = UnionByArray<SearchResultVariants, '__typename'>;
+
+export const searchResultOps = createPipeHandlers<SearchResult, '__typename'>('__typename');
+`,
+    );
+  });
+
+  it('should give unselected possible types a variant with only __typename', () => {
+    const output = generateGraphQL(schema, {
+      documents: [
+        `query Search($term: String!) {
+          search(term: $term) {
+            __typename
+            ... on User { name }
+            ...PostTitle
+          }
+        }
+        fragment PostTitle on Post { title }`,
+      ],
+    });
+
+    expect(output).toContain(
+      "export type SearchQuery = { search: (Model<'User', { name: string | null }, '__typename'> | Model<'Post', { title: string }, '__typename'> | Model<'Ad', {}, '__typename'>)[] };",
+    );
+    expect(output).toContain(
+      'export type PostTitleFragment = { title: string };',
+    );
+  });
+
+  it('should select interface fields on every possible type', () => {
+    const output = generateGraphQL(schema, {
+      documents: [
+        `query GetNode {
+          node(id: "1") {
+            id
+            ... on Post { headline: title author { name } }
+          }
+        }`,
+      ],
+    });
+
+    expect(output).toContain(
+      "export type GetNodeQuery = { node: Model<'User', { id: string }, '__typename'> | Model<'Post', { id: string; headline: string; author: { name: string | null } }, '__typename'> | null };",
+    );
+  });
+
+  it('should make fields under @include and @skip optional', () => {
+    const output = generateGraphQL(schema, {
+      documents: [
+        `query Users($full: Boolean!) {
+          node(id: "1") {
+            ... on User { __typename id @skip(if: $full) friends @include(if: $full) { id } }
+          }
+        }`,
+      ],
+    });
+
+    expect(output).toContain(
+      "export type UsersQuery = { node: Model<'User', { id?: string; friends?: { id: string }[] }, '__typename'> | Model<'Post', {}, '__typename'> | null };",
+    );
+  });
+
+  it('should merge type extensions', () => {
+    const output = generateGraphQL(
+      `type Ad { url: String! }
+      extend type Ad { sponsor: String }
+      union Promo = Ad
+      extend union Promo = Ad2
+      type Ad2 { id: ID! }`,
+    );
+
+    expect(output).toContain(
+      "export type Ad = Model<'Ad', { url: string; sponsor: string | null }, '__typename'>;",
+    );
+    expect(output).toContain(`export type PromoVariants = [
+  Ad,
+  Ad2,
+];`);
+  });
+
+  it('should import only what the output uses', () => {
+    expect(
+      generateGraphQL('enum Role { ADMIN }', { importFrom: '../lib' }),
+    ).toBe(
+      `// Generated by dismatch-codegen. Do not edit.
+
+export type Role = 'ADMIN';
+`,
+    );
+    expect(
+      generateGraphQL('type Ad { url: String! }', { importFrom: '../lib' }),
+    ).toContain("import type { Model } from '../lib';");
+  });
+
+  it('should throw for unknown types, fields and fragments', () => {
+    expect(() => generateGraphQL('type A { b: B }')).toThrow(
+      "Unknown type 'B'",
+    );
+    expect(() =>
+      generateGraphQL(schema, {
+        documents: ['query Q { node(id: 1) { nope } }'],
+      }),
+    ).toThrow("Type 'User' has no field 'nope'");
+    expect(() =>
+      generateGraphQL(schema, {
+        documents: ['query Q { node(id: 1) { ...Missing } }'],
+      }),
+    ).toThrow("Unknown fragment 'Missing'");
+    expect(() =>
+      generateGraphQL(schema, { documents: ['{ search { __typename } }'] }),
+    ).toThrow('Name every operation to generate its result type');
+  });
+
+  it('should report syntax errors with their line', () => {
+    expect(() => generateGraphQL('type A {\n  b String\n}')).toThrow(
+      "Expected ':', found 'String' at line 2",
+    );
+    expect(() => generateGraphQL('type A { b: % }')).toThrow(
+      "Unexpected character '%' at line 1",
+    );
+    expect(() => generateGraphQL('type A {')).toThrow(
+      'Expected a name, found the end of the document',
+    );
+    expect(() => generateGraphQL('type A {}\ntype A {}')).toThrow(
+      "Type 'A' is defined more than once",
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { matchGroups } from '../groups';
+import { InvalidUnionError, UnhandledVariantError } from '../errors';
+import type { Model, VariantGroups } from '../types';
+
+type Shape =
+  | Model<'circle', { radius: number }>
+  | Model<'ellipse', { rx: number; ry: number }>
+  | Model<'square', { side: number }>
+  | Model<'triangle', { base: number; height: number }>;
+
+const outline = {
+  round: ['circle', 'ellipse'],
+  angular: ['square', 'triangle'],
+} as const satisfies VariantGroups<Shape>;
+
+const circle = { type: 'circle', radius: 1 } as Shape;
+const ellipse = { type: 'ellipse', rx: 2, ry: 1 } as Shape;
+const square = { type: 'square', side: 2 } as Shape;
+const triangle = { type: 'triangle', base: 2, height: 3 } as Shape;
+
+describe('matchGroups', () => {
+  it('should pass every variant of a group to its handler', () => {
+    const kind = (shape: Shape) =>
+      matchGroups(
+        shape,
+        outline,
+      )({
+        round: ({ type }) => `round ${type}`,
+        angular: ({ type }) => `angular ${type}`,
+      });
+
+    expect(kind(circle)).toBe('round circle');
+    expect(kind(ellipse)).toBe('round ellipse');
+    expect(kind(square)).toBe('angular square');
+    expect(kind(triangle)).toBe('angular triangle');
+  });
+
+  it('should mix group handlers with variant handlers', () => {
+    const corners = (shape: Shape) =>
+      matchGroups(
+        shape,
+        outline,
+      )({
+        round: () => 0,
+        square: ({ side }) => (side > 0 ? 4 : 0),
+        triangle: () => 3,
+      });
+
+    expect(corners(circle)).toBe(0);
+    expect(corners(ellipse)).toBe(0);
+    expect(corners(square)).toBe(4);
+    expect(corners(triangle)).toBe(3);
+  });
+
+  it('should narrow the group handler input to the union of its variants', () => {
+    const area = matchGroups(
+      ellipse,
+      outline,
+    )({
+      round: (shape) =>
+        shape.type === 'circle'
+          ? Math.PI * shape.radius ** 2
+          : Math.PI * shape.rx * shape.ry,
+      angular: () => 0,
+    });
+    expect(area).toBeCloseTo(Math.PI * 2);
+  });
+
+  it('should support a custom discriminant and groups declared inline', () => {
+    type Animal =
+      | Model<'dog', { name: string }, 'kind'>
+      | Model<'cat', { lives: number }, 'kind'>
+      | Model<'bird', { canFly: boolean }, 'kind'>;
+
+    const bird = { kind: 'bird', canFly: true } as Animal;
+    const legs = matchGroups(
+      bird,
+      { pets: ['dog', 'cat'] },
+      'kind',
+    )({
+      pets: () => 4,
+      bird: () => 2,
+    });
+    expect(legs).toBe(2);
+  });
+
+  it('should throw UnhandledVariantError when no handler covers the variant', () => {
+    const handlers = { round: () => 0 } as any;
+    try {
+      matchGroups(square, outline)(handlers);
+      expect.unreachable('Expected matchGroups to throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(UnhandledVariantError);
+      expect((err as UnhandledVariantError).received).toBe('square');
+      expect((err as UnhandledVariantError).handlers).toEqual(['round']);
+      expect((err as Error).stack).not.toMatch(/at lookup/);
+    }
+  });
+
+  it('should throw InvalidUnionError for invalid input', () => {
+    expect(() => matchGroups({} as Shape, outline)).toThrow(InvalidUnionError);
+  });
+
+  it('should reject handler maps that do not cover every variant exactly once', () => {
+    const check = (shape: Shape) => {
+      const byOutline = matchGroups(shape, outline);
+
+      // @ts-expect-error `triangle` is not covered
+      byOutline({ round: () => 0, square: () => 4 });
+
+      byOutline({
+        // @ts-expect-error `round` and `circle` both cover circles
+        round: () => 0,
+        angular: () => 1,
+        // @ts-expect-error `round` and `circle` both cover circles
+        circle: () => 2,
+      });
+
+      byOutline({
+        round: () => 0,
+        angular: () => 1,
+        // @ts-expect-error `hexagon` is neither a group nor a variant
+        hexagon: () => 2,
+      });
+    };
+    expect(() => check(triangle)).toThrow(UnhandledVariantError);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { guarded, when } from '../guarded';
+import { createPipeHandlers, match, matchWithDefault } from '../unions';
+import type { Model } from '../types';
+
+type Shape =
+  | Model<'circle', { radius: number; label?: string }>
+  | Model<'square', { side: number }>
+  | Model<'triangle', { base: number; height: number }>;
+
+type CircleData = { radius: number; label?: string };
+
+const hasLabel = (
+  circle: CircleData,
+): circle is CircleData & { label: string } => circle.label !== undefined;
+
+const huge = { type: 'circle', radius: 500 } as Shape;
+const named = { type: 'circle', radius: 5, label: 'sun' } as Shape;
+const plain = { type: 'circle', radius: 5 } as Shape;
+const square = { type: 'square', side: 2 } as Shape;
+const triangle = { type: 'triangle', base: 2, height: 3 } as Shape;
+
+const describeCircle = guarded(
+  [
+    [({ radius }: CircleData) => radius > 100, () => 'huge circle'],
+    when(hasLabel, ({ label }) => `circle "${label.toUpperCase()}"`),
+  ],
+  ({ radius }) => `circle r=${radius}`,
+);
+
+describe('guarded', () => {
+  it('should run the first case whose predicate passes', () => {
+    expect(describeCircle({ radius: 500, label: 'sun' })).toBe('huge circle');
+    expect(describeCircle({ radius: 5, label: 'sun' })).toBe('circle "SUN"');
+  });
+
+  it('should run the fallback when no predicate passes', () => {
+    expect(describeCircle({ radius: 5 })).toBe('circle r=5');
+  });
+
+  it('should not call predicates after the first match', () => {
+    const calls: string[] = [];
+    const handler = guarded<number, string>(
+      [
+        [(n) => (calls.push('first'), n > 0), () => 'positive'],
+        [(n) => (calls.push('second'), n > 10), () => 'large'],
+      ],
+      () => 'other',
+    );
+    expect(handler(20)).toBe('positive');
+    expect(calls).toEqual(['first']);
+  });
+
+  it('when: should build a [predicate, handler] pair', () => {
+    const predicate = (n: number) => n > 0;
+    const handler = () => 'positive';
+    expect(when(predicate, handler)).toEqual([predicate, handler]);
+  });
+
+  describe('inside match', () => {
+    const label = (shape: Shape) =>
+      match(shape)({
+        circle: guarded(
+          [
+            [({ radius }) => radius > 100, () => 'huge circle'],
+            when(hasLabel, ({ label }) => `circle "${label}"`),
+          ],
+          ({ radius }) => `circle r=${radius}`,
+        ),
+        square: ({ side }) => `square ${side}`,
+        triangle: () => 'triangle',
+      });
+
+    it('should refine the variant with its cases', () => {
+      expect(label(huge)).toBe('huge circle');
+      expect(label(named)).toBe('circle "sun"');
+      expect(label(plain)).toBe('circle r=5');
+      expect(label(square)).toBe('square 2');
+    });
+  });
+
+  describe('inside matchWithDefault', () => {
+    const isBig = (shape: Shape) =>
+      matchWithDefault(shape)({
+        circle: guarded(
+          [[({ radius }) => radius > 100, () => true]],
+          () => false,
+        ),
+        square: guarded([[({ side }) => side > 100, () => true]], () => false),
+        Default: () => false,
+      });
+
+    it('should refine handled variants and leave Default for the rest', () => {
+      expect(isBig(huge)).toBe(true);
+      expect(isBig(plain)).toBe(false);
+      expect(isBig(square)).toBe(false);
+      expect(isBig(triangle)).toBe(false);
+    });
+  });
+
+  describe('inside createPipeHandlers.match', () => {
+    const shapeOps = createPipeHandlers<Shape, 'type'>('type');
+    const area = shapeOps.match({
+      circle: guarded(
+        [when(hasLabel, ({ label }) => label.length)],
+        ({ radius }) => Math.round(Math.PI * radius ** 2),
+      ),
+      square: ({ side }) => side ** 2,
+      triangle: ({ base, height }) => (base * height) / 2,
+    });
+
+    it('should refine the variant with its cases', () => {
+      expect(area(named)).toBe(3);
+      expect(area(plain)).toBe(79);
+      expect(area(square)).toBe(4);
+      expect(area(triangle)).toBe(3);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { clearStackTrace } from '../helpers';
+import { clearStackTrace, fromHandlerKey } from '../helpers';
 
 describe('clearStackTrace', () => {
   it('should return the same error object', () => {
@@ -34,3 +34,20 @@ describe('clearStackTrace', () => {
     expect(result).toBe(nonError);
   });
 });
+
+describe('fromHandlerKey', () => {
+  it('should turn numeric and boolean keys back into their values', () => {
+    expect(fromHandlerKey('404')).toBe(404);
+    expect(fromHandlerKey('-1.5')).toBe(-1.5);
+    expect(fromHandlerKey('true')).toBe(true);
+    expect(fromHandlerKey('false')).toBe(false);
+  });
+
+  it('should keep other keys as they are', () => {
+    const tag = Symbol('tag');
+    expect(fromHandlerKey('circle')).toBe('circle');
+    expect(fromHandlerKey('')).toBe('');
+    expect(fromHandlerKey('007')).toBe('007');
+    expect(fromHandlerKey(tag)).toBe(tag);
+  });
+});
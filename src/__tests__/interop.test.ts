@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { tagged } from '../interop';
+import { Result } from '../result';
+import { Option } from '../option';
+import { createPipeHandlers } from '../unions';
+import { InvalidUnionError, UnhandledVariantError } from '../errors';
+
+// The shapes fp-ts declares, reproduced so the tests do not depend on it
+interface Left<E> {
+  readonly _tag: 'Left';
+  readonly left: E;
+}
+interface Right<A> {
+  readonly _tag: 'Right';
+  readonly right: A;
+}
+type Either<E, A> = Left<E> | Right<A>;
+type FpOption<A> =
+  { readonly _tag: 'None' } | { readonly _tag: 'Some'; readonly value: A };
+
+const left = <E, A = never>(e: E): Either<E, A> => ({ _tag: 'Left', left: e });
+const right = <A, E = never>(a: A): Either<E, A> => ({
+  _tag: 'Right',
+  right: a,
+});
+
+// Effect's data types are class instances with more than the `_tag`
+class Success<A> {
+  readonly _tag = 'Success';
+  constructor(readonly value: A) {}
+  toJSON() {
+    return { _id: 'Exit', _tag: this._tag, value: this.value };
+  }
+}
+class Failure<E> {
+  readonly _tag = 'Failure';
+  constructor(readonly cause: { _tag: 'Fail'; error: E }) {}
+}
+type Exit<A, E> = Success<A> | Failure<E>;
+
+const pipe = <A, B>(a: A, f: (a: A) => B) => f(a);
+
+type Event =
+  | { _tag: 'Created'; id: string }
+  | { _tag: 'Deleted'; id: string; hard: boolean };
+
+describe('tagged', () => {
+  it('should match, map and narrow with _tag bound', () => {
+    const event = { _tag: 'Deleted', id: 'a', hard: true } as Event;
+
+    const label = tagged.match(event)({
+      Created: ({ id }) => `created ${id}`,
+      Deleted: ({ id, hard }) => `deleted ${id}${hard ? '!' : ''}`,
+    });
+    expect(label).toBe('deleted a!');
+    expect(
+      tagged.matchWithDefault(event)({ Created: () => 1, Default: () => 0 }),
+    ).toBe(0);
+
+    const soft = tagged.map(event)({ Deleted: (e) => ({ ...e, hard: false }) });
+    expect(soft).toEqual({ _tag: 'Deleted', id: 'a', hard: false });
+    expect(tagged.mapAll(event)({ Created: (e) => e, Deleted: (e) => e })).toBe(
+      event,
+    );
+
+    if (tagged.is(event, 'Deleted')) {
+      const hard: boolean = event.hard;
+      expect(hard).toBe(true);
+    }
+    expect(tagged.isOneOf(event, ['Created', 'Deleted'])).toBe(true);
+    // @ts-expect-error - not a variant of Event
+    tagged.is(event, 'Updated');
+  });
+
+  it('should match fp-ts values with inferred generics', () => {
+    const parsed: Either<string, number> = right(42);
+
+    const text: string = tagged.match(parsed)({
+      Left: ({ left }) => left,
+      Right: ({ right }) => right.toFixed(1),
+    });
+    expect(text).toBe('42.0');
+  });
+
+  it('should match handlers-first inside a pipe', () => {
+    const describe = (value: Either<Error, number>) =>
+      pipe(
+        value,
+        tagged.either({
+          Left: ({ left }) => left.message,
+          Right: ({ right }) => `${right + 1}`,
+        }),
+      );
+    expect(describe(right(1))).toBe('2');
+    expect(describe(left(new Error('boom')))).toBe('boom');
+
+    const option: FpOption<string> = { _tag: 'Some', value: 'a' };
+    expect(
+      pipe(
+        option,
+        tagged.option({
+          None: () => '',
+          Some: ({ value }) => value.toUpperCase(),
+        }),
+      ),
+    ).toBe('A');
+
+    const exit: Exit<number, string> = new Failure({
+      _tag: 'Fail',
+      error: 'no',
+    });
+    expect(
+      pipe(
+        exit,
+        tagged.exit({
+          Success: ({ value }) => value,
+          Failure: ({ cause }) => cause.error.length,
+        }),
+      ),
+    ).toBe(2);
+  });
+
+  it('should work with createPipeHandlers for concrete types', () => {
+    const ops = createPipeHandlers<Either<string, number>>('_tag');
+    expect(
+      [right(1), left('a')].map(ops.match({ Left: () => 0, Right: () => 1 })),
+    ).toEqual([1, 0]);
+  });
+
+  it('should convert Either to and from Result', () => {
+    expect(tagged.fromEither(right(1))).toEqual(Result.ok(1));
+    expect(tagged.fromEither(left('boom'))).toEqual(Result.err('boom'));
+
+    const result: Result<number, string> = Result.err('boom');
+    const either: Either<string, number> = tagged.toEither(result);
+    expect(either).toEqual(left('boom'));
+    expect(tagged.toEither(Result.ok(1))).toEqual(right(1));
+  });
+
+  it('should convert Option to and from Option', () => {
+    const some: FpOption<number> = { _tag: 'Some', value: 1 };
+    const option: Option<number> = tagged.fromOption(some);
+    expect(option).toEqual(Option.some(1));
+    expect(tagged.fromOption({ _tag: 'None' })).toBe(Option.none);
+
+    const back: FpOption<number> = tagged.toOption(option);
+    expect(back).toEqual(some);
+    expect(tagged.toOption(Option.none)).toEqual({ _tag: 'None' });
+  });
+
+  it('should convert Exit to and from Result', () => {
+    const success: Exit<number, string> = new Success(1);
+    expect(tagged.fromExit(success)).toEqual(Result.ok(1));
+
+    const failure = tagged.fromExit(new Failure({ _tag: 'Fail', error: 'no' }));
+    expect(failure).toEqual(Result.err({ _tag: 'Fail', error: 'no' }));
+
+    expect(tagged.toExit(Result.ok(1))).toEqual({ _tag: 'Success', value: 1 });
+    expect(tagged.toExit(Result.err('no'))).toEqual({
+      _tag: 'Failure',
+      cause: 'no',
+    });
+  });
+
+  it('should throw for values that are not the expected shape', () => {
+    try {
+      tagged.fromEither({ left: 1 } as unknown as Either<number, number>);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(InvalidUnionError);
+    }
+
+    try {
+      tagged.either({ Left: () => 0, Right: () => 1 })({
+        _tag: 'Both',
+      } as unknown as Either<number, number>);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(UnhandledVariantError);
+    }
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect } from 'vitest';
+import { createMachine } from '../machine';
+import { InvalidUnionError, UnhandledVariantError } from '../errors';
+import type { Model } from '../types';
+
+type FetchState =
+  | Model<'idle'>
+  | Model<'loading', { attempt: number }>
+  | Model<'success', { data: string[] }>
+  | Model<'failure', { error: string; attempt: number }>;
+
+type FetchEvent =
+  | Model<'fetch'>
+  | Model<'resolve', { data: string[] }>
+  | Model<'reject', { error: string }>
+  | Model<'reset'>;
+
+const createFetchMachine = (log: string[] = []) =>
+  createMachine<FetchState, FetchEvent>(
+    'type',
+    'type',
+  )({
+    transitions: {
+      idle: {
+        fetch: () => ({ type: 'loading', attempt: 1 }),
+        resolve: null,
+        reject: null,
+        reset: null,
+      },
+      loading: {
+        fetch: null,
+        resolve: (_, { data }) => ({ type: 'success', data }),
+        reject: ({ attempt }, { error }) => ({
+          type: 'failure',
+          error,
+          attempt,
+        }),
+        reset: () => ({ type: 'idle' }),
+      },
+      success: {
+        fetch: () => ({ type: 'loading', attempt: 1 }),
+        resolve: (_, { data }) => ({ type: 'success', data }),
+        reject: null,
+        reset: () => ({ type: 'idle' }),
+      },
+      failure: {
+        fetch: ({ attempt }) => ({ type: 'loading', attempt: attempt + 1 }),
+        resolve: null,
+        reject: null,
+        reset: () => ({ type: 'idle' }),
+      },
+    },
+    entry: {
+      loading: ({ attempt }, event) =>
+        log.push(`enter loading ${attempt} on ${event.type}`),
+      failure: ({ error }) => log.push(`enter failure: ${error}`),
+    },
+    exit: {
+      loading: () => log.push('exit loading'),
+    },
+  });
+
+const idle = { type: 'idle' } as const;
+const loading = { type: 'loading', attempt: 1 } as const;
+const failure = { type: 'failure', error: 'offline', attempt: 2 } as const;
+const success = { type: 'success', data: ['a'] } as FetchState;
+
+describe('createMachine', () => {
+  it('should return the next state from the transition table', () => {
+    const machine = createFetchMachine();
+
+    expect(machine.transition(idle, { type: 'fetch' })).toEqual(loading);
+    expect(
+      machine.transition(loading, { type: 'resolve', data: ['a'] }),
+    ).toEqual(success);
+    expect(machine.transition(failure, { type: 'fetch' })).toEqual({
+      type: 'loading',
+      attempt: 3,
+    });
+  });
+
+  it('should return the same state for ignored events', () => {
+    const machine = createFetchMachine();
+    expect(machine.transition(success, { type: 'reject', error: 'late' })).toBe(
+      success,
+    );
+  });
+
+  it('should report whether an event is handled with can', () => {
+    const machine = createFetchMachine();
+
+    expect(machine.can(idle, { type: 'fetch' })).toBe(true);
+    expect(machine.can(idle, { type: 'reset' })).toBe(false);
+    expect(machine.can(loading, { type: 'reset' })).toBe(true);
+  });
+
+  it('should narrow the event with can', () => {
+    const machine = createFetchMachine();
+    const event = { type: 'fetch' } as FetchEvent;
+
+    if (machine.can(idle, event)) {
+      expect(machine.transition(idle, event)).toEqual(loading);
+    } else {
+      expect.unreachable('Expected fetch to be handled in idle');
+    }
+  });
+
+  it('should run exit and entry actions when the variant changes', () => {
+    const log: string[] = [];
+    const machine = createFetchMachine(log);
+
+    const next = machine.transition(idle, { type: 'fetch' });
+    machine.transition(next, { type: 'reject', error: 'offline' });
+
+    expect(log).toEqual([
+      'enter loading 1 on fetch',
+      'exit loading',
+      'enter failure: offline',
+    ]);
+  });
+
+  it('should not run actions for transitions within the same variant', () => {
+    const log: string[] = [];
+    const machine = createFetchMachine(log);
+
+    machine.transition(success, { type: 'resolve', data: ['b'] });
+    machine.transition(success, { type: 'reject', error: 'ignored' });
+    expect(log).toEqual([]);
+  });
+
+  it('should notify listeners of every transition that was not ignored', () => {
+    const machine = createFetchMachine();
+    const calls: unknown[][] = [];
+    const unsubscribe = machine.subscribe((...args) => calls.push(args));
+
+    const next = machine.transition(idle, { type: 'fetch' });
+    machine.transition(success, { type: 'reject', error: 'late' });
+    unsubscribe();
+    machine.transition(next, { type: 'reset' });
+
+    expect(calls).toEqual([[loading, idle, { type: 'fetch' }]]);
+  });
+
+  it('should support custom discriminants', () => {
+    type Door =
+      | Model<'open', {}, 'state'>
+      | Model<'closed', { locked: boolean }, 'state'>;
+    type Action = Model<'push', {}, 'kind'> | Model<'lock', {}, 'kind'>;
+
+    const door = createMachine<Door, Action>(
+      'state',
+      'kind',
+    )({
+      transitions: {
+        open: { push: () => ({ state: 'closed', locked: false }), lock: null },
+        closed: {
+          push: ({ locked }) =>
+            locked ? { state: 'closed', locked } : { state: 'open' },
+          lock: () => ({ state: 'closed', locked: true }),
+        },
+      },
+    });
+
+    const closed = door.transition({ state: 'open' }, { kind: 'push' });
+    expect(closed).toEqual({ state: 'closed', locked: false });
+    expect(door.transition(closed, { kind: 'lock' })).toEqual({
+      state: 'closed',
+      locked: true,
+    });
+    expect(door.can({ state: 'open' }, { kind: 'lock' })).toBe(false);
+  });
+
+  it('should throw InvalidUnionError for invalid states or events', () => {
+    const machine = createFetchMachine();
+
+    expect(() =>
+      machine.transition({} as FetchState, { type: 'fetch' }),
+    ).toThrow(InvalidUnionError);
+    expect(() => machine.can(idle, {} as FetchEvent)).toThrow(
+      InvalidUnionError,
+    );
+  });
+
+  it('should throw UnhandledVariantError for entries missing at runtime', () => {
+    const machine = createMachine<FetchState, FetchEvent>(
+      'type',
+      'type',
+    )({
+      transitions: { idle: {} } as any,
+    });
+
+    try {
+      machine.transition(idle, { type: 'fetch' });
+      expect.unreachable('Expected transition to throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(UnhandledVariantError);
+      expect((err as UnhandledVariantError).received).toBe('fetch');
+      expect((err as Error).stack).not.toMatch(/at handlerFor/);
+    }
+    expect(() => machine.can(loading, { type: 'fetch' })).toThrow(
+      UnhandledVariantError,
+    );
+  });
+
+  it('should not take transitions from the prototype', () => {
+    const machine = createFetchMachine();
+    expect(() =>
+      machine.transition({ type: 'toString' } as any, { type: 'fetch' }),
+    ).toThrow(UnhandledVariantError);
+    expect(() => machine.can(idle, { type: 'constructor' } as any)).toThrow(
+      UnhandledVariantError,
+    );
+  });
+
+  it('should reject illegal transitions and incomplete tables at compile time', () => {
+    const check = () => {
+      const machine = createFetchMachine();
+
+      // @ts-expect-error `resolve` is ignored in `idle`
+      machine.transition(idle, { type: 'resolve', data: [] });
+
+      createMachine<FetchState, FetchEvent>(
+        'type',
+        'type',
+      )({
+        transitions: {
+          // @ts-expect-error `reset` is neither handled nor ignored in `idle`
+          idle: { fetch: () => loading, resolve: null, reject: null },
+          loading: { fetch: null, resolve: null, reject: null, reset: null },
+          success: { fetch: null, resolve: null, reject: null, reset: null },
+          failure: { fetch: null, resolve: null, reject: null, reset: null },
+        },
+      });
+    };
+    expect(check).not.toThrow();
+  });
+});
@@ -0,0 +1,92 @@
+import { bench, describe } from 'vitest';
+import { compile } from '../compile';
+import { createPipeHandlers, match, matchWithDefault } from '../unions';
+
+type Shape =
+  | { type: 'circle'; radius: number }
+  | { type: 'rectangle'; width: number; height: number }
+  | { type: 'triangle'; base: number; height: number }
+  | { type: 'square'; side: number };
+
+// Fixed, interleaved input so every run sees the same variant mix
+const shapes: Shape[] = Array.from({ length: 1000 }, (_, i): Shape => {
+  switch (i % 4) {
+    case 0:
+      return { type: 'circle', radius: i };
+    case 1:
+      return { type: 'rectangle', width: i, height: 2 };
+    case 2:
+      return { type: 'triangle', base: i, height: 3 };
+    default:
+      return { type: 'square', side: i };
+  }
+});
+
+const handlers = {
+  circle: ({ radius }: { radius: number }) => radius * radius * 3.14,
+  rectangle: ({ width, height }: { width: number; height: number }) =>
+    width * height,
+  triangle: ({ base, height }: { base: number; height: number }) =>
+    (base * height) / 2,
+  square: ({ side }: { side: number }) => side * side,
+};
+
+function switchArea(shape: Shape): number {
+  switch (shape.type) {
+    case 'circle':
+      return shape.radius * shape.radius * 3.14;
+    case 'rectangle':
+      return shape.width * shape.height;
+    case 'triangle':
+      return (shape.base * shape.height) / 2;
+    case 'square':
+      return shape.side * shape.side;
+  }
+}
+
+const compiledArea = compile<Shape, number>(handlers, 'type');
+const pipeArea = createPipeHandlers<Shape>('type').match(handlers);
+const compiledRound = compile<Shape, number>(
+  { circle: () => 1, Default: () => 0 },
+  'type',
+);
+
+function sum(area: (shape: Shape) => number) {
+  let total = 0;
+  for (const shape of shapes) total += area(shape);
+  return total;
+}
+
+describe('exhaustive match over 1000 values', () => {
+  bench('switch', () => {
+    sum(switchArea);
+  });
+
+  bench('compile', () => {
+    sum(compiledArea);
+  });
+
+  bench('createPipeHandlers().match', () => {
+    sum(pipeArea);
+  });
+
+  bench('match(input, discriminant)(handlers)', () => {
+    sum((shape) => match(shape, 'type')(handlers));
+  });
+});
+
+describe('match with a default over 1000 values', () => {
+  bench('switch', () => {
+    sum((shape) => (shape.type === 'circle' ? 1 : 0));
+  });
+
+  bench('compile', () => {
+    sum(compiledRound);
+  });
+
+  bench('matchWithDefault(input, discriminant)(handlers)', () => {
+    sum((shape) =>
+      matchWithDefault(shape, 'type')({ circle: () => 1, Default: () => 0 }),
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { isUnion, is } from '../unions';
+import { isUnion, is, isOneOf } from '../unions';
 
 type Shape =
   | { type: 'circle'; radius: number }
@@ -55,12 +55,22 @@ describe('isUnion', () => {
     expect(isUnion([])).toBe(false);
   });
 
-  it('should return false for object with numeric type', () => {
-    expect(isUnion({ type: 123 })).toBe(false);
+  it('should return true for object with numeric type', () => {
+    expect(isUnion({ type: 123 })).toBe(true);
   });
 
-  it('should return false for object with boolean type', () => {
-    expect(isUnion({ type: true })).toBe(false);
+  it('should return true for object with boolean type', () => {
+    expect(isUnion({ type: true })).toBe(true);
+  });
+
+  it('should return true for object with symbol type', () => {
+    expect(isUnion({ type: Symbol('circle') })).toBe(true);
+  });
+
+  it('should return false for object with object, null or undefined type', () => {
+    expect(isUnion({ type: {} })).toBe(false);
+    expect(isUnion({ type: null })).toBe(false);
+    expect(isUnion({ type: undefined })).toBe(false);
   });
 });
 
@@ -170,3 +180,37 @@ describe('is — array filtering', () => {
     expect(result).toHaveLength(0);
   });
 });
+
+describe('isOneOf', () => {
+  const dog = { kind: 'dog', name: 'Rex' } as Animal;
+  const cat = { kind: 'cat', lives: 9 } as Animal;
+  const bird = { kind: 'bird', canFly: true } as Animal;
+
+  it('should return true when the variant is in the list', () => {
+    expect(isOneOf(dog, ['dog', 'cat'], 'kind')).toBe(true);
+    expect(isOneOf(cat, ['dog', 'cat'], 'kind')).toBe(true);
+  });
+
+  it('should return false when the variant is not in the list', () => {
+    expect(isOneOf(bird, ['dog', 'cat'], 'kind')).toBe(false);
+    expect(isOneOf(bird, [], 'kind')).toBe(false);
+  });
+
+  it('should narrow to the listed variants', () => {
+    const animal = bird as Animal;
+    if (isOneOf(animal, ['bird'], 'kind')) {
+      expect(animal.canFly).toBe(true);
+    } else {
+      expect.unreachable('Expected bird variant');
+    }
+  });
+
+  it('should filter arrays to the listed variants', () => {
+    const shapes: Shape[] = [
+      { type: 'circle', radius: 5 },
+      { type: 'rectangle', width: 4, height: 6 },
+    ];
+    const circles = shapes.filter((s) => isOneOf(s, ['circle']));
+    expect(circles.map((c) => c.radius)).toEqual([5]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { Option } from '../option';
+import { createPipeHandlers, is, match } from '../unions';
+import { InvalidUnionError } from '../errors';
+
+type User = { name: string; address?: { city?: string } };
+
+const users: User[] = [
+  { name: 'Ada', address: { city: 'London' } },
+  { name: 'Alan', address: {} },
+];
+
+const find = (name: string) =>
+  Option.fromNullable(users.find((user) => user.name === name));
+
+describe('Option', () => {
+  it('should build plain some and none variants', () => {
+    expect(Option.some(1)).toEqual({ type: 'some', value: 1 });
+    expect(Option.none).toEqual({ type: 'none' });
+    expect(Object.isFrozen(Option.none)).toBe(true);
+  });
+
+  it('should work with match, is and createPipeHandlers', () => {
+    const user = find('Ada');
+
+    const name: string = match(user)({
+      some: ({ value }) => value.name,
+      none: () => 'nobody',
+    });
+    expect(name).toBe('Ada');
+    expect(is(find('Grace'), 'none')).toBe(true);
+
+    const ops = createPipeHandlers<Option<User>>('type');
+    expect(
+      [find('Ada'), find('Grace')].map(
+        ops.match({ some: () => 1, none: () => 0 }),
+      ),
+    ).toEqual([1, 0]);
+  });
+
+  it('should map present values and pass none through', () => {
+    const name = Option.map((user: User) => user.name);
+
+    const ada: Option<string> = name(find('Ada'));
+    expect(ada).toEqual(Option.some('Ada'));
+    expect(name(find('Grace'))).toBe(Option.none);
+  });
+
+  it('should chain lookups that may come up empty', () => {
+    const city = (name: string) =>
+      Option.flatMap((address: NonNullable<User['address']>) =>
+        Option.fromNullable(address.city),
+      )(
+        Option.flatMap((user: User) => Option.fromNullable(user.address))(
+          find(name),
+        ),
+      );
+
+    expect(city('Ada')).toEqual(Option.some('London'));
+    expect(city('Alan')).toBe(Option.none);
+    expect(city('Grace')).toBe(Option.none);
+  });
+
+  it('should unwrap a present value or fall back', () => {
+    const name = Option.map((user: User) => user.name);
+
+    expect(Option.unwrapOr('nobody')(name(find('Ada')))).toBe('Ada');
+    expect(Option.unwrapOr('nobody')(name(find('Grace')))).toBe('nobody');
+  });
+
+  it('should combine all present values into a tuple, or return none', () => {
+    const both = Option.all([Option.some(1), Option.some('a')]);
+    const values: [number, string] | undefined = is(both, 'some')
+      ? both.value
+      : undefined;
+    expect(values).toEqual([1, 'a']);
+    expect(Option.all([Option.some(1), Option.none])).toBe(Option.none);
+  });
+
+  it('should return the first present option', () => {
+    const second = Option.some(2);
+    expect(Option.any([Option.none, second, Option.some(3)])).toBe(second);
+    expect(Option.any([Option.none, Option.none])).toBe(Option.none);
+  });
+
+  it('should convert nullable values, keeping falsy ones', () => {
+    expect(Option.fromNullable(null)).toBe(Option.none);
+    expect(Option.fromNullable(undefined)).toBe(Option.none);
+    expect(Option.fromNullable(0)).toEqual(Option.some(0));
+    expect(Option.fromNullable('')).toEqual(Option.some(''));
+  });
+
+  it('should settle promises and catch throws into none', async () => {
+    expect(await Option.fromPromise(Promise.resolve(1))).toEqual(
+      Option.some(1),
+    );
+    expect(await Option.fromPromise(Promise.reject(new Error()))).toBe(
+      Option.none,
+    );
+    expect(Option.tryCatch(() => JSON.parse('1'))).toEqual(Option.some(1));
+    expect(Option.tryCatch(() => JSON.parse('{'))).toBe(Option.none);
+  });
+
+  it('should throw for values that are not options', () => {
+    try {
+      Option.unwrapOr(0)(null as unknown as Option<number>);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(InvalidUnionError);
+    }
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isUnion,
+  is,
+  match,
+  matchWithDefault,
+  map,
+  mapAll,
+  createPipeHandlers,
+} from '../unions';
+import { matchAsync, mapAsync } from '../async';
+import { InvalidUnionError, UnhandledVariantError } from '../errors';
+import type { Model } from '../types';
+
+type Payload =
+  | Model<'created', { name: string }, 'kind'>
+  | Model<'renamed', { from: string; to: string }, 'kind'>
+  | Model<'deleted', {}, 'kind'>;
+
+type Message = {
+  id: number;
+  meta: { source: string };
+  payload: Payload;
+};
+
+const PATH = ['payload', 'kind'] as const;
+
+const created: Message = {
+  id: 1,
+  meta: { source: 'api' },
+  payload: { kind: 'created', name: 'a' },
+};
+const renamed: Message = {
+  id: 2,
+  meta: { source: 'ui' },
+  payload: { kind: 'renamed', from: 'a', to: 'b' },
+};
+const deleted: Message = {
+  id: 3,
+  meta: { source: 'api' },
+  payload: { kind: 'deleted' },
+};
+
+describe('nested discriminant paths', () => {
+  describe('isUnion', () => {
+    it('should find a string discriminant at the path', () => {
+      expect(isUnion(created, ['payload', 'kind'])).toBe(true);
+    });
+
+    it('should reject missing or non-object steps', () => {
+      expect(isUnion({ id: 1 }, ['payload', 'kind'])).toBe(false);
+      expect(isUnion({ payload: null }, ['payload', 'kind'])).toBe(false);
+      expect(isUnion({ payload: 'created' }, ['payload', 'kind'])).toBe(false);
+      expect(isUnion(null, ['payload', 'kind'])).toBe(false);
+    });
+
+    it('should support deeper paths and array indexes', () => {
+      expect(isUnion({ a: { b: { c: 'x' } } }, ['a', 'b', 'c'])).toBe(true);
+      expect(isUnion({ events: [{ kind: 'x' }] }, ['events', 0, 'kind'])).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('is', () => {
+    it('should compare the nested discriminant', () => {
+      expect(is(created, 'created', PATH)).toBe(true);
+      expect(is(created, 'deleted', PATH)).toBe(false);
+    });
+
+    it('should narrow the envelope', () => {
+      const message = renamed as Message;
+      if (is(message, 'renamed', ['payload', 'kind'])) {
+        expect(message.payload.to).toBe('b');
+        expect(message.meta.source).toBe('ui');
+      } else {
+        expect.unreachable('Expected renamed payload');
+      }
+    });
+  });
+
+  describe('match', () => {
+    const describeMessage = (message: Message) =>
+      match(
+        message,
+        PATH,
+      )({
+        created: ({ name }) => `created ${name}`,
+        renamed: ({ from, to }) => `${from} -> ${to}`,
+        deleted: () => 'deleted',
+      });
+
+    it('should dispatch on the nested variant and pass it to the handler', () => {
+      expect(describeMessage(created)).toBe('created a');
+      expect(describeMessage(renamed)).toBe('a -> b');
+      expect(describeMessage(deleted)).toBe('deleted');
+    });
+
+    it('should throw InvalidUnionError when the path does not lead to a discriminant', () => {
+      expect(() => match({ id: 1 } as any, PATH)).toThrow(InvalidUnionError);
+    });
+
+    it('should report the full path in errors', () => {
+      const unknown = { id: 9, payload: { kind: 'moved' } } as any as Message;
+      try {
+        match(unknown, PATH)({} as any);
+        expect.unreachable('Expected match to throw');
+      } catch (err) {
+        expect(err).toBeInstanceOf(UnhandledVariantError);
+        expect((err as UnhandledVariantError).discriminant).toEqual(PATH);
+        expect((err as UnhandledVariantError).received).toBe('moved');
+        expect((err as Error).message).toContain(
+          "No handler for 'moved' at 'payload.kind'",
+        );
+      }
+    });
+  });
+
+  describe('matchWithDefault', () => {
+    it('should fall back to Default for unhandled nested variants', () => {
+      const handlers = {
+        created: ({ name }: { name: string }) => name,
+        Default: () => 'other',
+      };
+      expect(matchWithDefault(created, PATH)(handlers)).toBe('a');
+      expect(matchWithDefault(deleted, PATH)(handlers)).toBe('other');
+    });
+  });
+
+  describe('map', () => {
+    it('should rebuild the envelope around the transformed variant', () => {
+      const result = map(
+        created,
+        PATH,
+      )({
+        created: ({ name }) => ({
+          kind: 'created' as const,
+          name: name.toUpperCase(),
+        }),
+      });
+      expect(result).toEqual({
+        id: 1,
+        meta: { source: 'api' },
+        payload: { kind: 'created', name: 'A' },
+      });
+      expect(result).not.toBe(created);
+      expect(created.payload).toEqual({ kind: 'created', name: 'a' });
+      expect(result.meta).toBe(created.meta);
+    });
+
+    it('should return the same envelope for unmatched variants', () => {
+      const result = map(
+        deleted,
+        PATH,
+      )({
+        created: ({ name }) => ({ kind: 'created' as const, name }),
+      });
+      expect(result).toBe(deleted);
+    });
+
+    it('should return the same envelope when the handler returns the variant unchanged', () => {
+      const result = map(created, PATH)({ created: (payload) => payload });
+      expect(result).toBe(created);
+    });
+
+    it('should rebuild arrays along the path', () => {
+      const batch = {
+        events: [{ kind: 'deleted' }, { kind: 'created', name: 'x' }],
+      };
+      const result = map(batch as any, ['events', 1, 'kind'])({
+        created: () => ({ kind: 'deleted' }),
+      });
+      expect(Array.isArray(result.events)).toBe(true);
+      expect(result.events).toEqual([{ kind: 'deleted' }, { kind: 'deleted' }]);
+      expect(result.events[0]).toBe(batch.events[0]);
+    });
+  });
+
+  describe('mapAll', () => {
+    it('should transform every nested variant', () => {
+      const result = mapAll(
+        renamed,
+        PATH,
+      )({
+        created: (p) => p,
+        renamed: ({ from, to }) => ({
+          kind: 'renamed' as const,
+          from: to,
+          to: from,
+        }),
+        deleted: (p) => p,
+      });
+      expect(result.payload).toEqual({ kind: 'renamed', from: 'b', to: 'a' });
+      expect(result.id).toBe(2);
+    });
+  });
+
+  describe('createPipeHandlers', () => {
+    const messageOps = createPipeHandlers<Message, ['payload', 'kind']>([
+      'payload',
+      'kind',
+    ]);
+
+    it('match: should dispatch on the nested discriminant', () => {
+      const label = messageOps.match({
+        created: () => 'c',
+        renamed: () => 'r',
+        deleted: () => 'd',
+      });
+      expect([created, renamed, deleted].map(label)).toEqual(['c', 'r', 'd']);
+    });
+
+    it('map: should rebuild envelopes', () => {
+      const rename = messageOps.map({
+        renamed: ({ from }) => ({ kind: 'renamed' as const, from, to: 'z' }),
+      });
+      expect(rename(renamed).payload).toEqual({
+        kind: 'renamed',
+        from: 'a',
+        to: 'z',
+      });
+      expect(rename(created)).toBe(created);
+    });
+
+    it('matchWithDefault and mapAll: should use the path', () => {
+      const isCreated = messageOps.matchWithDefault({
+        created: () => true,
+        Default: () => false,
+      });
+      expect(isCreated(created)).toBe(true);
+      expect(isCreated(deleted)).toBe(false);
+
+      const identity = messageOps.mapAll({
+        created: (p) => p,
+        renamed: (p) => p,
+        deleted: (p) => p,
+      });
+      expect(identity(deleted)).toBe(deleted);
+    });
+  });
+
+  describe('async', () => {
+    it('matchAsync: should pass the nested variant to the handler', async () => {
+      await expect(
+        matchAsync(
+          created,
+          PATH,
+        )({
+          created: async ({ name }) => name,
+          renamed: async ({ to }) => to,
+          deleted: async () => '',
+        }),
+      ).resolves.toBe('a');
+    });
+
+    it('mapAsync: should rebuild the envelope', async () => {
+      const result = await mapAsync(
+        created,
+        PATH,
+      )({
+        created: async ({ name }) => ({
+          kind: 'created' as const,
+          name: `${name}!`,
+        }),
+      });
+      expect(result).toEqual({
+        ...created,
+        payload: { kind: 'created', name: 'a!' },
+      });
+      await expect(mapAsync(deleted, PATH)({})).resolves.toBe(deleted);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { combineReducers, createActions, createReducer } from '../reducer';
+import type { Model } from '../types';
+
+type CounterAction =
+  | Model<'increment', { by: number }>
+  | Model<'decrement', { by: number }>
+  | Model<'reset'>;
+
+type Todo = { id: number; title: string; done: boolean };
+
+type TodoAction =
+  Model<'add', { title: string }> | Model<'toggle', { id: number }>;
+
+const counter = createReducer<number, CounterAction>(0, {
+  increment: (count, { by }) => count + by,
+  decrement: (count, { by }) => count - by,
+  reset: () => 0,
+});
+
+const todos = createReducer<Todo[], TodoAction>([], {
+  add: (list, { title }) => [
+    ...list,
+    { id: list.length + 1, title, done: false },
+  ],
+  toggle: (list, { id }) =>
+    list.map((todo) => (todo.id === id ? { ...todo, done: !todo.done } : todo)),
+});
+
+describe('createReducer', () => {
+  it('should start from the initial state', () => {
+    expect(counter(undefined, { type: 'increment', by: 2 })).toBe(2);
+  });
+
+  it('should apply the handler of the action variant', () => {
+    expect(counter(5, { type: 'decrement', by: 2 })).toBe(3);
+    expect(counter(5, { type: 'reset' })).toBe(0);
+  });
+
+  it('should pass foreign actions through without throwing', () => {
+    const state = [{ id: 1, title: 'a', done: false }];
+    const init = { type: '@@redux/INIT' } as unknown as TodoAction;
+
+    expect(todos(undefined, init)).toEqual([]);
+    expect(todos(state, init)).toBe(state);
+    expect(todos(state, { type: 'toString' } as any)).toBe(state);
+  });
+
+  it('should pass values that are not actions through', () => {
+    expect(counter(4, undefined as any)).toBe(4);
+    expect(counter(4, {} as any)).toBe(4);
+  });
+
+  it('should support a custom discriminant', () => {
+    type Event = Model<'on', {}, 'kind'> | Model<'off', {}, 'kind'>;
+    const light = createReducer<boolean, Event, 'kind'>(
+      false,
+      { on: () => true, off: () => false },
+      'kind',
+    );
+
+    expect(light(undefined, { kind: 'on' })).toBe(true);
+    expect(light(true, { type: 'on' } as any)).toBe(true);
+  });
+
+  it('should reject handler maps that miss an action at compile time', () => {
+    const check = () =>
+      // @ts-expect-error `reset` has no handler
+      createReducer<number, CounterAction>(0, {
+        increment: (count) => count,
+        decrement: (count) => count,
+      });
+    expect(check).not.toThrow();
+  });
+});
+
+describe('combineReducers', () => {
+  const root = combineReducers({ counter, todos });
+
+  it('should build the initial state from every slice', () => {
+    expect(root(undefined, { type: '@@INIT' } as any)).toEqual({
+      counter: 0,
+      todos: [],
+    });
+  });
+
+  it('should pass every action to every slice', () => {
+    let state = root(undefined, { type: 'increment', by: 1 });
+    state = root(state, { type: 'add', title: 'write tests' });
+
+    expect(state).toEqual({
+      counter: 1,
+      todos: [{ id: 1, title: 'write tests', done: false }],
+    });
+  });
+
+  it('should return the previous state when no slice changed', () => {
+    const state = root(undefined, { type: 'reset' });
+    expect(root(state, { type: 'toggle', id: 42 })).not.toBe(state);
+    expect(root(state, { type: 'reset' })).toBe(state);
+  });
+
+  it('should nest', () => {
+    const app = combineReducers({ root, total: counter });
+    expect(app(undefined, { type: 'increment', by: 3 })).toEqual({
+      root: { counter: 3, todos: [] },
+      total: 3,
+    });
+  });
+});
+
+describe('createActions', () => {
+  const actions = createActions<CounterAction>('type', [
+    'increment',
+    'decrement',
+    'reset',
+  ]);
+
+  it('should create actions with the discriminant filled in', () => {
+    expect(actions.increment({ by: 2 })).toEqual({ type: 'increment', by: 2 });
+    expect(actions.reset()).toEqual({ type: 'reset' });
+  });
+
+  it('should produce actions the reducer accepts', () => {
+    expect(counter(1, actions.decrement({ by: 1 }))).toBe(0);
+  });
+
+  it('should support a custom discriminant', () => {
+    type Event = Model<'ping', { at: number }, 'kind'>;
+    const events = createActions<Event>('kind', ['ping']);
+    expect(events.ping({ at: 1 })).toEqual({ kind: 'ping', at: 1 });
+  });
+
+  it('should require every action type, each once', () => {
+    // @ts-expect-error 'reset' is missing
+    createActions<CounterAction>('type', ['increment', 'decrement']);
+    expect(() =>
+      createActions<CounterAction>('type', [
+        'increment',
+        'increment',
+        'reset',
+      ] as any),
+    ).toThrow("Variant name 'increment' is listed twice!");
+  });
+});
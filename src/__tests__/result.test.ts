@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { Result } from '../result';
+import { createPipeHandlers, is, match } from '../unions';
+import { InvalidUnionError, UnhandledVariantError } from '../errors';
+
+const parsePort = (input: string): Result<number, string> => {
+  const port = Number(input);
+  return Number.isInteger(port) ? Result.ok(port) : Result.err('not a port');
+};
+
+describe('Result', () => {
+  it('should build plain ok and err variants', () => {
+    expect(Result.ok(1)).toEqual({ type: 'ok', value: 1 });
+    expect(Result.err('nope')).toEqual({ type: 'err', error: 'nope' });
+  });
+
+  it('should work with match, is and createPipeHandlers', () => {
+    const result = parsePort('8080');
+
+    const text: string = match(result)({
+      ok: ({ value }) => `port ${value}`,
+      err: ({ error }) => error,
+    });
+    expect(text).toBe('port 8080');
+    expect(is(result, 'ok')).toBe(true);
+
+    const ops = createPipeHandlers<Result<number, string>>('type');
+    expect(
+      [parsePort('1'), parsePort('x')].map(
+        ops.match({ ok: () => 1, err: () => 0 }),
+      ),
+    ).toEqual([1, 0]);
+  });
+
+  it('should map the value of a success and pass failures through', () => {
+    const increment = Result.map((port: number) => port + 1);
+    const failure = parsePort('x');
+
+    expect(increment(parsePort('80'))).toEqual(Result.ok(81));
+    expect(increment(failure)).toBe(failure);
+  });
+
+  it('should map the error of a failure and pass successes through', () => {
+    const wrap = Result.mapErr((message: string) => new Error(message));
+    const success = parsePort('80');
+
+    const failed: Result<number, Error> = wrap(parsePort('x'));
+    expect(
+      match(failed)({ ok: () => '', err: ({ error }) => error.message }),
+    ).toBe('not a port');
+    expect(wrap(success)).toBe(success);
+  });
+
+  it('should chain operations that can fail', () => {
+    const privileged = Result.flatMap((port: number) =>
+      port < 1024 ? Result.ok(port) : Result.err(403 as const),
+    );
+
+    const chained: Result<number, string | 403> = privileged(parsePort('80'));
+    expect(chained).toEqual(Result.ok(80));
+    expect(privileged(parsePort('8080'))).toEqual(Result.err(403));
+    expect(privileged(parsePort('x'))).toEqual(Result.err('not a port'));
+  });
+
+  it('should unwrap a success or fall back', () => {
+    expect(Result.unwrapOr(0)(parsePort('80'))).toBe(80);
+    expect(Result.unwrapOr(null)(parsePort('x'))).toBe(null);
+  });
+
+  it('should combine all successes into a tuple, or return the first failure', () => {
+    const both = Result.all([Result.ok(1), Result.ok('a')]);
+    const values: [number, string] | undefined = is(both, 'ok')
+      ? both.value
+      : undefined;
+    expect(values).toEqual([1, 'a']);
+
+    const first = Result.err('first');
+    expect(Result.all([Result.ok(1), first, Result.err('second')])).toBe(first);
+    expect(Result.all([])).toEqual(Result.ok([]));
+  });
+
+  it('should return the first success, or all errors', () => {
+    const success = Result.ok(2);
+    expect(Result.any([Result.err('a'), success, Result.ok(3)])).toBe(success);
+
+    const errors = Result.any([Result.err('a'), Result.err(1)]);
+    const all: [string, number] | undefined = is(errors, 'err')
+      ? errors.error
+      : undefined;
+    expect(all).toEqual(['a', 1]);
+  });
+
+  it('should convert nullable values', () => {
+    const required = Result.fromNullable('missing');
+
+    const email: Result<string, string> = required(
+      'a@b.c' as string | undefined,
+    );
+    expect(email).toEqual(Result.ok('a@b.c'));
+    expect(required(null)).toEqual(Result.err('missing'));
+    expect(required(0)).toEqual(Result.ok(0));
+  });
+
+  it('should settle promises without rejecting', async () => {
+    expect(await Result.fromPromise(Promise.resolve(1))).toEqual(Result.ok(1));
+    expect(await Result.fromPromise(Promise.reject('boom'))).toEqual(
+      Result.err('boom'),
+    );
+    expect(
+      await Result.fromPromise(
+        Promise.reject(new Error('boom')),
+        (cause) => (cause as Error).message,
+      ),
+    ).toEqual(Result.err('boom'));
+  });
+
+  it('should catch what a function throws', () => {
+    expect(Result.tryCatch(() => JSON.parse('{"a":1}'))).toEqual(
+      Result.ok({ a: 1 }),
+    );
+
+    const failed = Result.tryCatch(
+      () => JSON.parse('{'),
+      (cause) => (cause instanceof SyntaxError ? 'syntax' : 'other'),
+    );
+    expect(failed).toEqual(Result.err('syntax'));
+  });
+
+  it('should throw for values that are not results', () => {
+    try {
+      Result.map((value: number) => value)({} as Result<number>);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(InvalidUnionError);
+    }
+
+    try {
+      Result.all([{ type: 'maybe' } as unknown as Result<number>]);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(UnhandledVariantError);
+    }
+  });
+
+  it('should reject a mismatched input type', () => {
+    const increment = Result.map((port: number) => port + 1);
+    // @ts-expect-error - the success value must be a number
+    increment(Result.ok('80'));
+  });
+});
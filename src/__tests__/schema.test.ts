@@ -0,0 +1,428 @@
+import { describe, it, expect } from 'vitest';
+import {
+  unionSchema,
+  string,
+  number,
+  boolean,
+  literal,
+  array,
+  object,
+  optional,
+  toJSONSchema,
+} from '../schema';
+import { ParseError } from '../errors';
+import type { Infer } from '../schema';
+import { mapAll } from '../unions';
+import type { Model } from '../types';
+
+type Shape =
+  | Model<'circle', { radius: number }>
+  | Model<'rectangle', { width: number; height: number }>
+  | Model<'empty'>;
+
+type Event =
+  | Model<'created', { id: string; tags: string[]; note?: string }, 'kind'>
+  | Model<'moved', { id: string; to: { x: number; y: number } }, 'kind'>
+  | Model<'flagged', { level: 'low' | 'high'; urgent: boolean }, 'kind'>;
+
+const ShapeSchema = unionSchema<Shape>('type', {
+  circle: object({ radius: number() }),
+  rectangle: object({ width: number(), height: number() }),
+  empty: object({}),
+});
+
+const EventSchema = unionSchema<Event>('kind', {
+  created: object({
+    id: string(),
+    tags: array(string()),
+    note: optional(string()),
+  }),
+  moved: object({ id: string(), to: object({ x: number(), y: number() }) }),
+  flagged: object({
+    level: literal('low'),
+    urgent: boolean(),
+  }),
+});
+
+describe('unionSchema', () => {
+  describe('metadata', () => {
+    it('should expose discriminant, variants and payload schemas', () => {
+      expect(ShapeSchema.discriminant).toBe('type');
+      expect(ShapeSchema.variants).toEqual(['circle', 'rectangle', 'empty']);
+      expect(ShapeSchema.payloads.circle).toEqual({
+        type: 'object',
+        shape: { radius: { type: 'number' } },
+      });
+      expect(ShapeSchema.strict).toBe(false);
+    });
+  });
+
+  describe('safeParse', () => {
+    it('should succeed for a well-formed variant and return the input', () => {
+      const input = { type: 'circle', radius: 5 };
+      const result = ShapeSchema.safeParse(input);
+      expect(result).toEqual({ type: 'success', data: input });
+      expect(result.type === 'success' && result.data).toBe(input);
+    });
+
+    it('should accept variants without payload', () => {
+      expect(ShapeSchema.safeParse({ type: 'empty' }).type).toBe('success');
+    });
+
+    it('should report a missing field with its path', () => {
+      expect(ShapeSchema.safeParse({ type: 'circle' })).toEqual({
+        type: 'failure',
+        issues: [
+          { path: ['radius'], message: 'Expected number, received undefined' },
+        ],
+      });
+    });
+
+    it('should report every failing field', () => {
+      const result = ShapeSchema.safeParse({
+        type: 'rectangle',
+        width: '2',
+        height: NaN,
+      });
+      expect(result).toEqual({
+        type: 'failure',
+        issues: [
+          { path: ['width'], message: 'Expected number, received string' },
+          { path: ['height'], message: 'Expected number, received NaN' },
+        ],
+      });
+    });
+
+    it('should reject discriminant values outside the variant list', () => {
+      expect(ShapeSchema.safeParse({ type: 'hexagon' })).toEqual({
+        type: 'failure',
+        issues: [
+          {
+            path: ['type'],
+            message:
+              "Expected one of 'circle' | 'rectangle' | 'empty', received 'hexagon'",
+          },
+        ],
+      });
+    });
+
+    it('should accept number and boolean discriminants', () => {
+      type Response =
+        Model<200, { body: string }, 'code'> | Model<404, {}, 'code'>;
+      const ResponseSchema = unionSchema<Response>(
+        'code',
+        { 200: object({ body: string() }), 404: object({}) },
+        { variants: [200, 404] },
+      );
+      expect(ResponseSchema.variants).toEqual([200, 404]);
+      expect(ResponseSchema.parse({ code: 404 })).toEqual({ code: 404 });
+      expect(ResponseSchema.safeParse({ code: 500 })).toEqual({
+        type: 'failure',
+        issues: [
+          {
+            path: ['code'],
+            message: 'Expected one of 200 | 404, received number',
+          },
+        ],
+      });
+      expect(ResponseSchema.safeParse({ code: '404' }).type).toBe('failure');
+
+      type Result =
+        | Model<true, { v: number }, 'ok'>
+        | Model<false, { error: string }, 'ok'>;
+      const ResultSchema = unionSchema<Result>(
+        'ok',
+        { true: object({ v: number() }), false: object({ error: string() }) },
+        { variants: [true, false] },
+      );
+      expect(ResultSchema.variants).toEqual([true, false]);
+      expect(ResultSchema.parse({ ok: true, v: 1 })).toEqual({
+        ok: true,
+        v: 1,
+      });
+      expect(ResultSchema.safeParse({ ok: false, v: 1 }).type).toBe('failure');
+      expect(ResultSchema.safeParse({ ok: 'true', v: 1 }).type).toBe('failure');
+    });
+
+    it('should keep string discriminants that look like numbers or booleans', () => {
+      type Flag = Model<'1', {}, 'bit'> | Model<'true', {}, 'bit'>;
+      const FlagSchema = unionSchema<Flag>('bit', {
+        1: object({}),
+        true: object({}),
+      });
+      expect(FlagSchema.variants).toEqual(['1', 'true']);
+      expect(FlagSchema.parse({ bit: '1' })).toEqual({ bit: '1' });
+      expect(FlagSchema.safeParse({ bit: 1 }).type).toBe('failure');
+      expect(FlagSchema.safeParse({ bit: true }).type).toBe('failure');
+    });
+
+    it('should require the variants of number and boolean discriminants', () => {
+      type Response = Model<200, {}, 'code'> | Model<404, {}, 'code'>;
+      const payloads = { 200: object({}), 404: object({}) };
+      // @ts-expect-error - payload keys can't tell `404` from `'404'`
+      unionSchema<Response>('code', payloads);
+      // @ts-expect-error - every variant is listed once
+      unionSchema<Response>('code', payloads, { variants: [200] });
+    });
+
+    it('should reject a missing discriminant', () => {
+      const result = ShapeSchema.safeParse({ radius: 1 });
+      expect(result.type === 'failure' && result.issues[0].path).toEqual([
+        'type',
+      ]);
+    });
+
+    it('should reject non-object input', () => {
+      for (const input of [null, undefined, 42, 'circle', []]) {
+        const result = ShapeSchema.safeParse(input);
+        expect(result.type === 'failure' && result.issues[0].path).toEqual([]);
+      }
+    });
+
+    it('should validate nested objects and arrays with full paths', () => {
+      const result = EventSchema.safeParse({
+        kind: 'created',
+        id: 'a',
+        tags: ['x', 3],
+      });
+      expect(result).toEqual({
+        type: 'failure',
+        issues: [
+          { path: ['tags', 1], message: 'Expected string, received number' },
+        ],
+      });
+
+      const moved = EventSchema.safeParse({
+        kind: 'moved',
+        id: 'a',
+        to: { x: 1 },
+      });
+      expect(moved.type === 'failure' && moved.issues).toEqual([
+        { path: ['to', 'y'], message: 'Expected number, received undefined' },
+      ]);
+    });
+
+    it('should allow optional fields to be missing but validate them when present', () => {
+      const base = { kind: 'created', id: 'a', tags: [] };
+      expect(EventSchema.safeParse(base).type).toBe('success');
+      expect(EventSchema.safeParse({ ...base, note: 'hi' }).type).toBe(
+        'success',
+      );
+      expect(EventSchema.safeParse({ ...base, note: 1 }).type).toBe('failure');
+    });
+
+    it('should check literals and booleans', () => {
+      const result = EventSchema.safeParse({
+        kind: 'flagged',
+        level: 'high',
+        urgent: 'yes',
+      });
+      expect(result.type === 'failure' && result.issues).toEqual([
+        { path: ['level'], message: 'Expected "low", received string' },
+        { path: ['urgent'], message: 'Expected boolean, received string' },
+      ]);
+    });
+
+    it('should allow extra fields by default', () => {
+      const result = ShapeSchema.safeParse({ type: 'circle', radius: 1, a: 1 });
+      expect(result.type).toBe('success');
+    });
+  });
+
+  describe('strict mode', () => {
+    const Strict = unionSchema<Event>('kind', EventSchema.payloads, {
+      strict: true,
+    });
+
+    it('should reject extra fields, including nested ones', () => {
+      const result = Strict.safeParse({
+        kind: 'moved',
+        id: 'a',
+        to: { x: 1, y: 2, z: 3 },
+        extra: true,
+      });
+      expect(result.type === 'failure' && result.issues).toEqual([
+        { path: ['to', 'z'], message: 'Unexpected field' },
+        { path: ['extra'], message: 'Unexpected field' },
+      ]);
+    });
+
+    it('should not treat the discriminant as an extra field', () => {
+      expect(
+        Strict.safeParse({ kind: 'flagged', level: 'low', urgent: true }),
+      ).toEqual({
+        type: 'success',
+        data: { kind: 'flagged', level: 'low', urgent: true },
+      });
+    });
+  });
+
+  describe('parse', () => {
+    it('should return the typed value for valid input', () => {
+      const shape = ShapeSchema.parse({ type: 'circle', radius: 2 });
+      const doubled = mapAll(shape)({
+        circle: ({ radius }) => ({
+          type: 'circle' as const,
+          radius: radius * 2,
+        }),
+        rectangle: (s) => ({ type: 'rectangle' as const, ...s }),
+        empty: () => ({ type: 'empty' as const }),
+      });
+      expect(doubled).toEqual({ type: 'circle', radius: 4 });
+    });
+
+    it('should throw a ParseError listing every issue', () => {
+      try {
+        ShapeSchema.parse({ type: 'rectangle', width: 1 });
+        expect.unreachable('Expected parse to throw');
+      } catch (err) {
+        expect(err).toBeInstanceOf(ParseError);
+        expect((err as ParseError).issues).toEqual([
+          { path: ['height'], message: 'Expected number, received undefined' },
+        ]);
+        expect((err as ParseError).message).toBe(
+          'Data does not match the union schema!\n' +
+            '  - height: Expected number, received undefined',
+        );
+      }
+    });
+
+    it('should label root-level issues', () => {
+      expect(() => ShapeSchema.parse(null)).toThrow(
+        '(root): Expected object, received null',
+      );
+    });
+  });
+});
+
+describe('schema combinators', () => {
+  it('should describe themselves as plain data', () => {
+    expect(array(optional(literal(1)))).toEqual({
+      type: 'array',
+      element: { type: 'optional', inner: { type: 'literal', value: 1 } },
+    });
+  });
+
+  it('should infer the validated type', () => {
+    const user = object({ name: string(), age: optional(number()) });
+    const value: Infer<typeof user> = { name: 'Ada' };
+    expect(value.age).toBeUndefined();
+  });
+});
+
+describe('toJSONSchema', () => {
+  it('should export a oneOf with a const discriminant per variant', () => {
+    expect(toJSONSchema(ShapeSchema)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $defs: {
+        circle: {
+          type: 'object',
+          properties: {
+            type: { const: 'circle' },
+            radius: { type: 'number' },
+          },
+          required: ['type', 'radius'],
+        },
+        rectangle: {
+          type: 'object',
+          properties: {
+            type: { const: 'rectangle' },
+            width: { type: 'number' },
+            height: { type: 'number' },
+          },
+          required: ['type', 'width', 'height'],
+        },
+        empty: {
+          type: 'object',
+          properties: { type: { const: 'empty' } },
+          required: ['type'],
+        },
+      },
+      oneOf: [
+        { $ref: '#/$defs/circle' },
+        { $ref: '#/$defs/rectangle' },
+        { $ref: '#/$defs/empty' },
+      ],
+      discriminator: {
+        propertyName: 'type',
+        mapping: {
+          circle: '#/$defs/circle',
+          rectangle: '#/$defs/rectangle',
+          empty: '#/$defs/empty',
+        },
+      },
+    });
+  });
+
+  it('should export nested, optional and literal fields under a custom discriminant', () => {
+    const schema = toJSONSchema(EventSchema);
+
+    expect(schema.discriminator?.propertyName).toBe('kind');
+    expect(schema.$defs?.created).toEqual({
+      type: 'object',
+      properties: {
+        kind: { const: 'created' },
+        id: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        note: { type: 'string' },
+      },
+      required: ['kind', 'id', 'tags'],
+    });
+    expect(schema.$defs?.moved.properties?.to).toEqual({
+      type: 'object',
+      properties: { x: { type: 'number' }, y: { type: 'number' } },
+      required: ['x', 'y'],
+    });
+    expect(schema.$defs?.flagged.properties?.level).toEqual({ const: 'low' });
+  });
+
+  it('should forbid additional properties at every level for strict schemas', () => {
+    const strict = unionSchema<Event>('kind', EventSchema.payloads, {
+      strict: true,
+    });
+    const { moved } = toJSONSchema(strict).$defs!;
+
+    expect(moved.additionalProperties).toBe(false);
+    expect(moved.properties?.to.additionalProperties).toBe(false);
+  });
+
+  it('should pin number and boolean discriminants with their own values', () => {
+    type Response =
+      Model<200, { body: string }, 'code'> | Model<404, {}, 'code'>;
+    const schema = toJSONSchema(
+      unionSchema<Response>(
+        'code',
+        { 200: object({ body: string() }), 404: object({}) },
+        { variants: [200, 404] },
+      ),
+    );
+    expect(schema.$defs?.['404'].properties?.code).toEqual({ const: 404 });
+    expect(schema.discriminator?.mapping).toEqual({
+      200: '#/$defs/200',
+      404: '#/$defs/404',
+    });
+
+    type Result = Model<true, { v: number }, 'ok'> | Model<false, {}, 'ok'>;
+    const { $defs } = toJSONSchema(
+      unionSchema<Result>(
+        'ok',
+        { true: object({ v: number() }), false: object({}) },
+        { variants: [true, false] },
+      ),
+    );
+    expect($defs?.true.properties?.ok).toEqual({ const: true });
+
+    type Flag = Model<'1', {}, 'bit'> | Model<'true', {}, 'bit'>;
+    const flags = toJSONSchema(
+      unionSchema<Flag>('bit', { 1: object({}), true: object({}) }),
+    );
+    expect(flags.$defs?.['1'].properties?.bit).toEqual({ const: '1' });
+    expect(flags.$defs?.true.properties?.bit).toEqual({ const: 'true' });
+  });
+
+  it('should be deterministic', () => {
+    expect(JSON.stringify(toJSONSchema(EventSchema))).toBe(
+      JSON.stringify(toJSONSchema(EventSchema)),
+    );
+  });
+});
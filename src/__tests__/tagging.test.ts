@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { tagging } from '../tagging';
+import { match } from '../unions';
+import { InvalidUnionError } from '../errors';
+import type {
+  AdjacentlyTagged,
+  ExternallyTagged,
+  InternallyTagged,
+  Model,
+} from '../types';
+
+type Shape =
+  | Model<'circle', { radius: number }>
+  | Model<'rectangle', { width: number; height: number }>
+  | Model<'point'>;
+
+const circle = { type: 'circle', radius: 1 } as Shape;
+const rectangle = { type: 'rectangle', width: 2, height: 3 } as Shape;
+const point = { type: 'point' } as Shape;
+
+const shapes = tagging<Shape>('type');
+
+describe('tagging', () => {
+  describe('adjacent', () => {
+    const wire = shapes.adjacent('t', 'c');
+
+    it('should encode to adjacently tagged form', () => {
+      expect(wire.encode(circle)).toEqual({ t: 'circle', c: { radius: 1 } });
+      expect(wire.encode(point)).toEqual({ t: 'point', c: {} });
+    });
+
+    it('should decode to the union', () => {
+      expect(
+        wire.decode({ t: 'rectangle', c: { width: 2, height: 3 } }),
+      ).toEqual(rectangle);
+    });
+
+    it('should not let the content override the discriminant', () => {
+      expect(
+        wire.decode({ t: 'circle', c: { radius: 1, type: 'box' } } as any),
+      ).toEqual({ type: 'circle', radius: 1 });
+    });
+
+    it('should decode a missing or null content to a variant without data', () => {
+      expect(wire.decode({ t: 'point' } as any)).toEqual(point);
+      expect(wire.decode({ t: 'point', c: null } as any)).toEqual(point);
+    });
+
+    it('should round-trip', () => {
+      for (const shape of [circle, rectangle, point]) {
+        expect(wire.decode(wire.encode(shape))).toEqual(shape);
+      }
+    });
+
+    it('should default to `t` and `c` and accept other keys', () => {
+      expect(shapes.adjacent().encode(circle)).toEqual({
+        t: 'circle',
+        c: { radius: 1 },
+      });
+      expect(shapes.adjacent('tag', 'content').encode(circle)).toEqual({
+        tag: 'circle',
+        content: { radius: 1 },
+      });
+    });
+
+    it('should throw InvalidUnionError for input in another form', () => {
+      expect(() => wire.decode({ circle: { radius: 1 } } as any)).toThrow(
+        InvalidUnionError,
+      );
+      expect(() => wire.decode({ t: 'circle', c: 1 } as any)).toThrow(
+        InvalidUnionError,
+      );
+    });
+
+    it('should type the wire form', () => {
+      const encoded: AdjacentlyTagged<Shape, 'type', 't', 'c'> =
+        wire.encode(circle);
+      if (encoded.t !== 'circle') expect.unreachable('Expected a circle');
+      expect(encoded.c.radius).toBe(1);
+      // @ts-expect-error the discriminant key is not part of the content
+      expect(encoded.c.type).toBeUndefined();
+    });
+  });
+
+  describe('external', () => {
+    const wire = shapes.external();
+
+    it('should encode to externally tagged form', () => {
+      expect(wire.encode(circle)).toEqual({ circle: { radius: 1 } });
+      expect(wire.encode(point)).toEqual({ point: {} });
+    });
+
+    it('should decode to the union', () => {
+      expect(wire.decode({ rectangle: { width: 2, height: 3 } })).toEqual(
+        rectangle,
+      );
+    });
+
+    it('should decode a bare string to a variant without data', () => {
+      expect(wire.decode('point' as any)).toEqual(point);
+    });
+
+    it('should round-trip', () => {
+      for (const shape of [circle, rectangle, point]) {
+        expect(wire.decode(wire.encode(shape))).toEqual(shape);
+      }
+    });
+
+    it('should round-trip number and boolean discriminants', () => {
+      type Response =
+        Model<200, { body: string }, 'code'> | Model<404, {}, 'code'>;
+      const responses = tagging<Response>('code', [200, 404]).external();
+      const notFound = { code: 404 } as Response;
+      const encoded: ExternallyTagged<Response, 'code'> =
+        responses.encode(notFound);
+      expect(encoded).toEqual({ 404: {} });
+      expect(responses.decode(encoded)).toEqual(notFound);
+
+      type Result = Model<true, { v: number }, 'ok'> | Model<false, {}, 'ok'>;
+      const results = tagging<Result>('ok', [true, false]).external();
+      expect(results.decode({ true: { v: 1 } })).toEqual({ ok: true, v: 1 });
+      expect(results.decode({ false: {} })).toEqual({ ok: false });
+
+      // @ts-expect-error - keys can't tell `404` from `'404'` without the variants
+      tagging<Response>('code');
+    });
+
+    it('should round-trip string discriminants that look like numbers or booleans', () => {
+      type Flag = Model<'1', { on: boolean }, 'bit'> | Model<'true', {}, 'bit'>;
+      const flags = tagging<Flag>('bit').external();
+      const one: Flag = { bit: '1', on: true };
+      expect(flags.encode(one)).toEqual({ 1: { on: true } });
+      expect(flags.decode(flags.encode(one))).toEqual(one);
+      expect(flags.decode({ true: {} })).toEqual({ bit: 'true' });
+    });
+
+    it('should throw InvalidUnionError for input in another form', () => {
+      expect(() => wire.decode({} as any)).toThrow(InvalidUnionError);
+      expect(() =>
+        wire.decode({ circle: { radius: 1 }, point: {} } as any),
+      ).toThrow(InvalidUnionError);
+      expect(() => wire.decode({ circle: 1 } as any)).toThrow(
+        InvalidUnionError,
+      );
+      expect(() => wire.decode(null as any)).toThrow(InvalidUnionError);
+    });
+
+    it('should type the wire form', () => {
+      const encoded: ExternallyTagged<Shape> = wire.encode(circle);
+      if (!('circle' in encoded)) expect.unreachable('Expected a circle');
+      expect(encoded.circle.radius).toBe(1);
+      // @ts-expect-error the discriminant key is not part of the value
+      expect(encoded.circle.type).toBeUndefined();
+    });
+  });
+
+  describe('internal', () => {
+    const wire = shapes.internal('kind');
+
+    it('should rename the discriminant key', () => {
+      expect(wire.encode(circle)).toEqual({ kind: 'circle', radius: 1 });
+      expect(wire.decode({ kind: 'rectangle', width: 2, height: 3 })).toEqual(
+        rectangle,
+      );
+    });
+
+    it('should round-trip', () => {
+      for (const shape of [circle, rectangle, point]) {
+        expect(wire.decode(wire.encode(shape))).toEqual(shape);
+      }
+    });
+
+    it('should throw InvalidUnionError when the wire key is missing', () => {
+      try {
+        wire.decode({ type: 'circle', radius: 1 } as any);
+        expect.unreachable('Expected decode to throw');
+      } catch (err) {
+        expect(err).toBeInstanceOf(InvalidUnionError);
+        expect((err as InvalidUnionError).discriminant).toBe('kind');
+        expect((err as Error).stack).not.toMatch(/at guard/);
+      }
+    });
+
+    it('should type the wire form', () => {
+      const encoded: InternallyTagged<Shape, 'type', 'kind'> =
+        wire.encode(circle);
+      if (encoded.kind !== 'circle') expect.unreachable('Expected a circle');
+      expect(encoded.radius).toBe(1);
+      // @ts-expect-error the discriminant key is renamed
+      expect(encoded.type).toBeUndefined();
+    });
+  });
+
+  it('should throw InvalidUnionError when encoding an invalid value', () => {
+    expect(() => shapes.external().encode({} as Shape)).toThrow(
+      InvalidUnionError,
+    );
+  });
+
+  it('should support unions with a custom discriminant', () => {
+    type Animal =
+      | Model<'dog', { name: string }, 'kind'>
+      | Model<'cat', { lives: number }, 'kind'>;
+
+    const animals = tagging<Animal>('kind');
+    const decoded = animals
+      .internal('type')
+      .decode({ type: 'dog', name: 'Rex' });
+
+    expect(decoded).toEqual({ kind: 'dog', name: 'Rex' });
+    expect(animals.external().encode(decoded)).toEqual({
+      dog: { name: 'Rex' },
+    });
+  });
+
+  it('should normalise wire data for match', () => {
+    const area = (input: AdjacentlyTagged<Shape, 'type', 't', 'c'>) =>
+      match(shapes.adjacent('t', 'c').decode(input))({
+        circle: ({ radius }) => Math.PI * radius ** 2,
+        rectangle: ({ width, height }) => width * height,
+        point: () => 0,
+      });
+
+    expect(area({ t: 'rectangle', c: { width: 2, height: 3 } })).toBe(6);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mapTo,
+  mapAllTo,
+  mapData,
+  mapAllData,
+  createPipeHandlers,
+} from '../unions';
+import { UnhandledVariantError } from '../errors';
+import type { Model } from '../types';
+
+type FetchState<T> =
+  | Model<'idle'>
+  | Model<'loading'>
+  | Model<'success', { data: T }>
+  | Model<'error', { message: string }>;
+
+type RawUser = { id: number; full_name: string };
+type User = { id: number; name: string };
+
+const toUser = ({ id, full_name }: RawUser): User => ({ id, name: full_name });
+
+type Shape =
+  | { type: 'circle'; radius: number }
+  | { type: 'rectangle'; width: number; height: number };
+
+type ShapeDTO =
+  { kind: 'circle'; r: number } | { kind: 'rect'; w: number; h: number };
+
+const circle = { type: 'circle', radius: 2 } as Shape;
+const rectangle = { type: 'rectangle', width: 2, height: 3 } as Shape;
+
+describe('mapAllTo', () => {
+  const toDTO = (shape: Shape) =>
+    mapAllTo(shape)({
+      circle: ({ radius }) => ({ kind: 'circle', r: radius }),
+      rectangle: ({ width, height }) => ({ kind: 'rect', w: width, h: height }),
+    });
+
+  it('should infer the union of the handler return types', () => {
+    const dto: ShapeDTO = toDTO(circle);
+    expect(dto).toEqual({ kind: 'circle', r: 2 });
+    expect(toDTO(rectangle)).toEqual({ kind: 'rect', w: 2, h: 3 });
+
+    const result = toDTO(rectangle);
+    const width = result.kind === 'rect' ? result.w : 0;
+    expect(width).toBe(2);
+    // @ts-expect-error the result is no longer a Shape
+    const shape: Shape = toDTO(circle);
+    expect(shape).toBeDefined();
+  });
+
+  it('should require a handler for every variant', () => {
+    expect(() =>
+      // @ts-expect-error rectangle is missing
+      mapAllTo(rectangle)({ circle: ({ radius }) => radius }),
+    ).toThrow(UnhandledVariantError);
+  });
+
+  it('should reject handlers for unknown variants', () => {
+    const result = mapAllTo(circle)({
+      circle: () => 1,
+      rectangle: () => 2,
+      // @ts-expect-error there is no triangle
+      triangle: () => 3,
+    });
+    expect(result).toBe(1);
+  });
+
+  it('should rebuild the envelope of a nested discriminant', () => {
+    type Message = {
+      id: string;
+      payload:
+        | Model<'created', { name: string }, 'kind'>
+        | Model<'deleted', {}, 'kind'>;
+    };
+    const message: Message = {
+      id: '1',
+      payload: { kind: 'created', name: 'a' },
+    };
+
+    const summary = mapAllTo(message, ['payload', 'kind'])({
+      created: ({ name }) => `created ${name}`,
+      deleted: () => 'deleted',
+    });
+    const payload: string = summary.payload;
+    expect(summary).toEqual({ id: '1', payload: 'created a' });
+    expect(payload).toBe('created a');
+  });
+});
+
+describe('mapTo', () => {
+  const loadUser = (state: FetchState<RawUser>) =>
+    mapTo(state)({
+      success: ({ data }) => ({ type: 'success', data: toUser(data) }),
+    });
+
+  it('should pass unhandled variants through with their types', () => {
+    const loading: FetchState<RawUser> = { type: 'loading' };
+    const done: FetchState<User> = loadUser({
+      type: 'success',
+      data: { id: 1, full_name: 'Ada Lovelace' },
+    });
+    expect(done).toEqual({
+      type: 'success',
+      data: { id: 1, name: 'Ada Lovelace' },
+    });
+    expect(loadUser(loading)).toBe(loading);
+  });
+
+  it('should keep the unhandled variants out of the handled ones', () => {
+    const result = mapTo(circle)({ circle: ({ radius }) => radius * 2 });
+    const value: number | { type: 'rectangle'; width: number; height: number } =
+      result;
+    expect(value).toBe(4);
+    // @ts-expect-error circles are mapped to numbers
+    const unmapped: Shape = result;
+    expect(unmapped).toBe(4);
+  });
+
+  it('should dispatch on boolean discriminants', () => {
+    type Response = { ok: true; value: number } | { ok: false; error: string };
+    const response = { ok: false, error: 'boom' } as Response;
+
+    const result = mapTo(response, 'ok')({ false: ({ error }) => error });
+    const value: string | { ok: true; value: number } = result;
+    expect(value).toBe('boom');
+  });
+});
+
+describe('mapData', () => {
+  it('should pass the payload and put the discriminant back', () => {
+    const doubled = mapData(circle)({
+      circle: (payload) => {
+        // @ts-expect-error handlers receive the payload only
+        payload.type;
+        expect(payload).toEqual({ radius: 2 });
+        return { radius: payload.radius * 2 };
+      },
+    });
+    expect(doubled).toEqual({ type: 'circle', radius: 4 });
+    expect(Object.keys(doubled)[0]).toBe('type');
+    expect(mapData(rectangle)({ circle: () => ({ radius: 0 }) })).toBe(
+      rectangle,
+    );
+  });
+
+  it('should keep the original discriminant', () => {
+    const result = mapData(circle)({
+      circle: () => ({ type: 'rectangle', radius: 1 }) as any,
+    });
+    expect(result).toEqual({ type: 'circle', radius: 1 });
+  });
+
+  it('should require payloads of the same variant', () => {
+    mapData(circle)({
+      // @ts-expect-error width is not part of the circle payload
+      circle: () => ({ width: 1 }),
+    });
+  });
+
+  it('should work with custom discriminants', () => {
+    type Animal =
+      { kind: 'dog'; name: string } | { kind: 'cat'; lives: number };
+    const cat = { kind: 'cat', lives: 9 } as Animal;
+
+    expect(
+      mapData(cat, 'kind')({ cat: ({ lives }) => ({ lives: lives - 1 }) }),
+    ).toEqual({ kind: 'cat', lives: 8 });
+  });
+
+  it('should rebuild the envelope of a nested discriminant', () => {
+    type Message = {
+      id: string;
+      payload:
+        | Model<'created', { name: string }, 'kind'>
+        | Model<'deleted', {}, 'kind'>;
+    };
+    const message: Message = {
+      id: '1',
+      payload: { kind: 'created', name: ' a ' },
+    };
+
+    const trimmed = mapData(message, ['payload', 'kind'])({
+      created: ({ name }) => ({ name: name.trim() }),
+    });
+    expect(trimmed).toEqual({
+      id: '1',
+      payload: { kind: 'created', name: 'a' },
+    });
+  });
+});
+
+describe('mapAllData', () => {
+  it('should transform every variant', () => {
+    const absolute = (shape: Shape) =>
+      mapAllData(shape)({
+        circle: ({ radius }) => ({ radius: Math.abs(radius) }),
+        rectangle: ({ width, height }) => ({
+          width: Math.abs(width),
+          height: Math.abs(height),
+        }),
+      });
+    const shape: Shape = absolute({ type: 'rectangle', width: -2, height: 3 });
+    expect(shape).toEqual({ type: 'rectangle', width: 2, height: 3 });
+  });
+
+  it('should require a handler for every variant', () => {
+    expect(() =>
+      // @ts-expect-error rectangle is missing
+      mapAllData(rectangle)({ circle: ({ radius }) => ({ radius }) }),
+    ).toThrow(UnhandledVariantError);
+  });
+});
+
+describe('createPipeHandlers mapData / mapAllData', () => {
+  it('should return reusable payload transforms', () => {
+    const shapeOps = createPipeHandlers<Shape>('type');
+    const grow = shapeOps.mapData({
+      circle: ({ radius }) => ({ radius: radius + 1 }),
+    });
+    expect([circle, rectangle].map(grow)).toEqual([
+      { type: 'circle', radius: 3 },
+      rectangle,
+    ]);
+
+    const animalOps = createPipeHandlers<
+      { kind: 'dog'; age: number } | { kind: 'cat'; age: number }
+    >('kind');
+    const older = animalOps.mapAllData({
+      dog: ({ age }) => ({ age: age + 1 }),
+      cat: ({ age }) => ({ age: age + 1 }),
+    });
+    expect(older({ kind: 'cat', age: 1 })).toEqual({ kind: 'cat', age: 2 });
+  });
+});
+
+describe('createPipeHandlers mapTo / mapAllTo', () => {
+  const shapeOps = createPipeHandlers<Shape>('type');
+
+  it('should return reusable type-changing transforms', () => {
+    const toDTO = shapeOps.mapAllTo({
+      circle: ({ radius }) => ({ kind: 'circle', r: radius }),
+      rectangle: ({ width, height }) => ({ kind: 'rect', w: width, h: height }),
+    });
+    const dtos: ShapeDTO[] = [circle, rectangle].map(toDTO);
+    expect(dtos).toEqual([
+      { kind: 'circle', r: 2 },
+      { kind: 'rect', w: 2, h: 3 },
+    ]);
+
+    const radius = shapeOps.mapTo({ circle: ({ radius }) => radius });
+    expect([circle, rectangle].map(radius)).toEqual([2, rectangle]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { matchN } from '../tuples';
+import { InvalidUnionError, UnhandledVariantError } from '../errors';
+import type { Model } from '../types';
+
+type State =
+  | Model<'idle', {}, 'status'>
+  | Model<'loading', { startedAt: number }, 'status'>
+  | Model<'success', { data: string }, 'status'>;
+
+type Action =
+  Model<'fetch'> | Model<'resolve', { data: string }> | Model<'reset'>;
+
+const idle = { status: 'idle' } as State;
+const loading = { status: 'loading', startedAt: 1 } as State;
+const success = { status: 'success', data: 'old' } as State;
+
+const fetch = { type: 'fetch' } as Action;
+const resolve = { type: 'resolve', data: 'new' } as Action;
+const reset = { type: 'reset' } as Action;
+
+const reduce = (state: State, action: Action) =>
+  matchN(
+    [state, action],
+    ['status', 'type'],
+  )({
+    'idle:fetch': (): State => ({ status: 'loading', startedAt: 1 }),
+    'loading:resolve': (_, { data }): State => ({ status: 'success', data }),
+    '_:reset': (): State => ({ status: 'idle' }),
+    '_:_': (current) => current,
+  });
+
+describe('matchN', () => {
+  it('should dispatch on the combination of variants', () => {
+    expect(reduce(idle, fetch)).toEqual({ status: 'loading', startedAt: 1 });
+    expect(reduce(loading, resolve)).toEqual({
+      status: 'success',
+      data: 'new',
+    });
+  });
+
+  it('should match wildcard positions against any variant', () => {
+    expect(reduce(loading, reset)).toEqual({ status: 'idle' });
+    expect(reduce(success, reset)).toEqual({ status: 'idle' });
+    expect(reduce(success, fetch)).toBe(success);
+  });
+
+  it('should pass every element to the handler', () => {
+    const result = matchN(
+      [loading, resolve],
+      ['status', 'type'],
+    )({
+      'loading:resolve': (state, action) => [state, action],
+      '_:_': () => [],
+    });
+    expect(result).toEqual([loading, resolve]);
+  });
+
+  it('should prefer the most specific key regardless of declaration order', () => {
+    const pick = (state: State, action: Action) =>
+      matchN(
+        [state, action],
+        ['status', 'type'],
+      )({
+        '_:_': () => 'any',
+        '_:fetch': () => 'any state, fetch',
+        'idle:_': () => 'idle, any action',
+        'idle:fetch': () => 'idle, fetch',
+      });
+
+    expect(pick(idle, fetch)).toBe('idle, fetch');
+    expect(pick(idle, reset)).toBe('idle, any action');
+    expect(pick(loading, fetch)).toBe('any state, fetch');
+    expect(pick(loading, reset)).toBe('any');
+  });
+
+  it('should prefer the key that is concrete further left when equally specific', () => {
+    const result = matchN(
+      [idle, fetch],
+      ['status', 'type'],
+    )({
+      '_:fetch': () => 'action',
+      'idle:_': () => 'state',
+      '_:_': () => 'any',
+    });
+    expect(result).toBe('state');
+  });
+
+  it("should default every element's discriminant to 'type'", () => {
+    const both = (a: Action, b: Action) =>
+      matchN([a, b])({
+        'fetch:fetch': () => 'twice',
+        'fetch:_': () => 'first',
+        '_:fetch': () => 'second',
+        '_:_': () => 'neither',
+      });
+
+    expect(both(fetch, fetch)).toBe('twice');
+    expect(both(fetch, reset)).toBe('first');
+    expect(both(reset, fetch)).toBe('second');
+    expect(both(reset, resolve)).toBe('neither');
+  });
+
+  it('should support more than two elements and nested paths', () => {
+    const event = { id: 1, payload: { kind: 'ping' } } as {
+      id: number;
+      payload: Model<'ping', {}, 'kind'> | Model<'pong', {}, 'kind'>;
+    };
+    const result = matchN(
+      [idle, fetch, event],
+      ['status', 'type', ['payload', 'kind']],
+    )({
+      'idle:fetch:ping': (_, __, { id }) => id,
+      '_:_:_': () => 0,
+    });
+    expect(result).toBe(1);
+  });
+
+  it('should throw UnhandledVariantError when no key covers the combination', () => {
+    const handlers = { 'idle:fetch': () => 1 } as any;
+    try {
+      matchN([success, fetch], ['status', 'type'])(handlers);
+      expect.unreachable('Expected matchN to throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(UnhandledVariantError);
+      expect((err as UnhandledVariantError).received).toBe('success:fetch');
+      expect((err as UnhandledVariantError).handlers).toEqual(['idle:fetch']);
+      expect((err as Error).message).toBe(
+        "Matcher incomplete! No handler for 'success:fetch' at 'status:type'. Available handlers: idle:fetch",
+      );
+    }
+  });
+
+  it('should throw InvalidUnionError when an element is not a union', () => {
+    expect(() =>
+      matchN([idle, { kind: 'fetch' }] as any, ['status', 'type']),
+    ).toThrow(InvalidUnionError);
+  });
+});
@@ -0,0 +1,171 @@
+import { errorDetails, HandlerError, TimeoutError } from './errors';
+import { locate, platform, replaceAt } from './helpers';
+import { guard, lookup } from './unions';
+import {
+  AsyncMapperAt,
+  AsyncMatcherAt,
+  AsyncOptions,
+  AsyncResult,
+  DiscriminantKey,
+  DefaultDiscriminant,
+  SampleUnionAt,
+} from './types';
+
+function run<
+  T extends SampleUnionAt<Discriminant>,
+  Result,
+  Discriminant extends DiscriminantKey,
+>(
+  input: T,
+  handlers: Record<string, ((...args: any[]) => any) | undefined>,
+  discriminant: Discriminant,
+  fallback: (() => Result) | undefined,
+  options: AsyncOptions = {},
+): Promise<Result> {
+  const { signal, timeout } = options;
+  let handler: (...args: any[]) => any;
+  try {
+    handler = lookup(input, handlers, discriminant, fallback, run);
+  } catch (err) {
+    return Promise.reject(err);
+  }
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  const controller = new platform.AbortController();
+
+  return new Promise<Result>((resolve, reject) => {
+    let timer: unknown;
+    const forward = () => controller.abort(signal!.reason);
+    const settle =
+      <V>(fn: (value: V) => void) =>
+      (value: V) => {
+        platform.clearTimeout(timer);
+        signal?.removeEventListener('abort', forward);
+        fn(value);
+      };
+
+    controller.signal.addEventListener('abort', () =>
+      settle(reject)(controller.signal.reason),
+    );
+    signal?.addEventListener('abort', forward);
+    if (timeout !== undefined) {
+      timer = platform.setTimeout(
+        () =>
+          controller.abort(
+            new TimeoutError({
+              ...errorDetails(input, discriminant),
+              timeout,
+            }),
+          ),
+        timeout,
+      );
+    }
+
+    new Promise<Result>((done) =>
+      done(handler(locate(input, discriminant)[0], controller.signal)),
+    ).then(settle(resolve), (cause) =>
+      settle(reject)(
+        new HandlerError({ ...errorDetails(input, discriminant), cause }),
+      ),
+    );
+  });
+}
+
+/**
+ * Exhaustive pattern matching with async handlers. Always resolves to a single flat Promise of
+ * the handlers' results, however many of them return Promises.
+ *
+ * Each handler receives the variant and an `AbortSignal` that fires when the caller's `signal`
+ * aborts or the `timeout` elapses; the returned Promise rejects at that moment. Errors thrown or
+ * rejected by a handler are wrapped in a `HandlerError` naming the variant that failed.
+ *
+ * @param input - The discriminated union value to match against
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A curried function that accepts a handler map and options, and returns a Promise of the result
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
+ *
+ * @example
+ * ```ts
+ * const output = await matchAsync(job)(
+ *   {
+ *     queued:  ({ jobId }, signal) => enqueue(jobId, { signal }),
+ *     running: ({ jobId }, signal) => poll(jobId, { signal }),
+ *     done:    ({ result })        => result,
+ *     failed:  ({ error })         => Promise.reject(new Error(error)),
+ *   },
+ *   { timeout: 5_000 },
+ * );
+ * ```
+ */
+export function matchAsync<
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  input: T,
+  discriminant: Discriminant = 'type' as Discriminant,
+): <H extends AsyncMatcherAt<T, Discriminant>>(
+  handlers: H,
+  options?: AsyncOptions,
+) => Promise<AsyncResult<H>> {
+  return guard(
+    input,
+    discriminant,
+    matchAsync,
+    () =>
+      <H extends AsyncMatcherAt<T, Discriminant>>(
+        handlers: H,
+        options?: AsyncOptions,
+      ) =>
+        run<T, AsyncResult<H>, Discriminant>(
+          input,
+          handlers as any,
+          discriminant,
+          undefined,
+          options,
+        ),
+  );
+}
+
+/**
+ * Partially transforms a discriminated union with async handlers. Variants without a handler
+ * resolve to the input unchanged. Cancellation, timeouts and error wrapping work as in {@link matchAsync}.
+ *
+ * @param input - The discriminated union value to transform
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A curried function that accepts a partial handler map and options, and returns a Promise of the (possibly transformed) value
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
+ *
+ * @example
+ * ```ts
+ * const refreshed = await mapAsync(state)({
+ *   success: async ({ data }, signal) => ({
+ *     type: 'success' as const,
+ *     data: await reload(data, { signal }),
+ *   }),
+ * });
+ * ```
+ */
+export function mapAsync<
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  input: T,
+  discriminant: Discriminant = 'type' as Discriminant,
+): (
+  mapper: AsyncMapperAt<T, Discriminant>,
+  options?: AsyncOptions,
+) => Promise<T> {
+  return guard(
+    input,
+    discriminant,
+    mapAsync,
+    () => (mapper: AsyncMapperAt<T, Discriminant>, options?: AsyncOptions) =>
+      run<T, unknown, Discriminant>(
+        input,
+        mapper as any,
+        discriminant,
+        () => locate(input, discriminant)[0],
+        options,
+      ).then((holder) => replaceAt(input, discriminant, holder)),
+  );
+}
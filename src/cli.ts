@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { basename, extname } from 'node:path';
+import { generate } from './codegen';
+import { generateGraphQL } from './graphql';
+
+const USAGE = `Usage: dismatch-codegen <schema.json | schema.graphql> [--out <file.ts>] [--check] [--name <RootType>] [--documents <file.graphql>...] [--import <module>]
+
+Generates Model unions, UnionByArray tuples and createPipeHandlers instances from
+the oneOf schemas of an OpenAPI document or a JSON Schema, or from the unions and
+interfaces of a GraphQL schema (.graphql or .gql), discriminated by __typename.
+
+Options:
+  --out <file>        Write to <file> instead of stdout
+  --check             Exit with 1 if <file> is missing or out of date; write nothing
+  --name <type>       Type name for a document whose root is a union
+  --documents <file>  GraphQL operations to generate result types for; repeatable
+  --import <module>   Module to import dismatch from (default: 'dismatch')`;
+
+function parseArgs(args: string[]) {
+  const options: Record<string, string | boolean> = {};
+  const inputs: string[] = [];
+  const documents: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--check' || arg === '--help') options[arg.slice(2)] = true;
+    else if (['--out', '--name', '--import', '--documents'].includes(arg)) {
+      if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+      if (arg === '--documents') documents.push(args[++i]);
+      else options[arg.slice(2)] = args[++i];
+    } else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else inputs.push(arg);
+  }
+  if (!options.help && inputs.length !== 1) {
+    throw new Error('Expected exactly one input file');
+  }
+  if (options.check && !options.out) throw new Error('--check requires --out');
+  return { input: inputs[0], documents, ...options } as {
+    input: string;
+    documents: string[];
+    out?: string;
+    check?: boolean;
+    name?: string;
+    import?: string;
+    help?: boolean;
+  };
+}
+
+function run(args: string[]): number {
+  const options = parseArgs(args);
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const source = basename(options.input);
+  const graphql = ['.graphql', '.gql'].includes(extname(options.input));
+  if (options.documents.length && !graphql) {
+    throw new Error('--documents requires a GraphQL schema');
+  }
+  const content = readFileSync(options.input, 'utf8');
+  const output = graphql
+    ? generateGraphQL(content, {
+        source,
+        documents: options.documents.map((file) => readFileSync(file, 'utf8')),
+        importFrom: options.import,
+      })
+    : generate(JSON.parse(content), {
+        source,
+        rootName: options.name,
+        importFrom: options.import,
+      });
+
+  if (!options.out) {
+    process.stdout.write(output);
+    return 0;
+  }
+  if (options.check) {
+    const current = existsSync(options.out)
+      ? readFileSync(options.out, 'utf8')
+      : undefined;
+    if (current === output) return 0;
+    console.error(
+      `${options.out} is out of date. Run dismatch-codegen without --check to update it.`,
+    );
+    return 1;
+  }
+  writeFileSync(options.out, output);
+  return 0;
+}
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (err) {
+  console.error(`dismatch-codegen: ${(err as Error).message}\n\n${USAGE}`);
+  process.exitCode = 2;
+}
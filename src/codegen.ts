@@ -0,0 +1,312 @@
+/** Options accepted by {@link generate}. */
+export type CodegenOptions = {
+  /** Name of the input file, mentioned in the generated header. */
+  source?: string;
+  /** Type name for a document whose root is itself a union. Defaults to its `title`, then `'Root'`. */
+  rootName?: string;
+  /** Module the generated code imports from. Defaults to `'dismatch'`. */
+  importFrom?: string;
+};
+
+type JsonSchema = {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  discriminator?: { propertyName: string; mapping?: Record<string, string> };
+  description?: string;
+  title?: string;
+};
+
+type Union = {
+  discriminant: string;
+  variants: { value: unknown; payload: JsonSchema }[];
+};
+
+function isRecord(input: unknown): input is Record<string, any> {
+  return typeof input === 'object' && input !== null && !Array.isArray(input);
+}
+
+function refName(ref: string) {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Only local references are supported, received '${ref}'`);
+  }
+  return ref.slice(ref.lastIndexOf('/') + 1);
+}
+
+function identifier(name: string) {
+  const id = name
+    .split(/[^A-Za-z0-9_$]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(id) ? `_${id}` : id || '_';
+}
+
+function literal(value: unknown) {
+  return typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+    : String(value);
+}
+
+function propertyKey(key: string) {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : literal(key);
+}
+
+/**
+ * Generates `Model`-based TypeScript unions from an OpenAPI document or a JSON Schema.
+ *
+ * Every schema with a `oneOf` whose members share a discriminant — named by an OpenAPI
+ * `discriminator`, or found as a property with a `const` value in every member — becomes a
+ * `Model` tuple, its union via `UnionByArray`, and a `createPipeHandlers` instance bound to
+ * the discriminant. Other schemas become plain type aliases; schemas that only serve as union
+ * members are inlined. Output follows the order of the document, so it is stable to commit.
+ *
+ * @param document - A parsed OpenAPI 3 document (`components.schemas`) or JSON Schema (`$defs` / `definitions`)
+ * @param options - Header, root type name and import module
+ * @returns The generated TypeScript source
+ * @throws {Error} If a reference cannot be resolved or a variant has no discriminant value
+ *
+ * @example
+ * ```ts
+ * generate(JSON.parse(readFileSync('openapi.json', 'utf8')), { source: 'openapi.json' });
+ * // export type ShapeVariants = [
+ * //   Model<'circle', { radius: number }>,
+ * //   Model<'square', { side: number }>,
+ * // ];
+ * // export type Shape = UnionByArray<ShapeVariants>;
+ * // export const shapeOps = createPipeHandlers<Shape, 'type'>('type');
+ * ```
+ */
+export function generate(document: unknown, options: CodegenOptions = {}) {
+  if (!isRecord(document)) {
+    throw new Error('Expected an OpenAPI document or a JSON Schema object');
+  }
+
+  const schemas: Record<string, JsonSchema> = {
+    ...document.definitions,
+    ...document.$defs,
+    ...document.components?.schemas,
+  };
+  const names = Object.keys(schemas);
+  if (document.oneOf || document.anyOf) {
+    const name = options.rootName ?? document.title ?? 'Root';
+    schemas[name] = document;
+    names.push(name);
+  }
+
+  const resolve = (schema: JsonSchema): JsonSchema => {
+    if (!schema.$ref) return schema;
+    const name = refName(schema.$ref);
+    if (!(name in schemas)) {
+      throw new Error(`Cannot resolve reference '${schema.$ref}'`);
+    }
+    return resolve(schemas[name]);
+  };
+
+  const flatten = (schema: JsonSchema): JsonSchema => {
+    const resolved = resolve(schema);
+    if (!resolved.allOf) return resolved;
+    const parts = resolved.allOf.map(flatten);
+    return {
+      ...resolved,
+      allOf: undefined,
+      type: 'object',
+      properties: Object.assign(
+        {},
+        ...parts.map((part) => part.properties),
+        resolved.properties,
+      ),
+      required: [
+        ...new Set([
+          ...parts.flatMap((part) => part.required ?? []),
+          ...(resolved.required ?? []),
+        ]),
+      ],
+    };
+  };
+
+  const constOf = (schema: JsonSchema | undefined) => {
+    if (!schema) return undefined;
+    const resolved = resolve(schema);
+    if ('const' in resolved) return { value: resolved.const };
+    if (resolved.enum?.length === 1) return { value: resolved.enum[0] };
+    return undefined;
+  };
+
+  const asUnion = (schema: JsonSchema, name: string): Union | undefined => {
+    const members = schema.oneOf ?? schema.anyOf;
+    if (!members?.length) return undefined;
+    const flat = members.map(flatten);
+
+    const discriminant =
+      schema.discriminator?.propertyName ??
+      Object.keys(flat[0].properties ?? {}).find((key) =>
+        flat.every((member) => constOf(member.properties?.[key])),
+      );
+    if (discriminant === undefined) return undefined;
+
+    const mapping = Object.entries(schema.discriminator?.mapping ?? {});
+    const variants = members.map((member, i) => {
+      const target = member.$ref && refName(member.$ref);
+      const value =
+        mapping.find(
+          ([, ref]) => ref === target || refName(ref) === target,
+        )?.[0] ??
+        constOf(flat[i].properties?.[discriminant])?.value ??
+        target;
+      if (value === undefined) {
+        throw new Error(
+          `Cannot determine the '${discriminant}' value of member ${i} of '${name}'`,
+        );
+      }
+
+      const { [discriminant]: _, ...properties } = flat[i].properties ?? {};
+      const required = (flat[i].required ?? []).filter(
+        (key) => key !== discriminant,
+      );
+      return { value, payload: { ...flat[i], properties, required } };
+    });
+
+    return { discriminant, variants };
+  };
+
+  const print = (schema: JsonSchema): string => {
+    const nullable = schema.nullable ? ' | null' : '';
+    if (schema.$ref) return identifier(refName(schema.$ref)) + nullable;
+    if ('const' in schema) return literal(schema.const);
+    if (schema.enum) return schema.enum.map(literal).join(' | ') + nullable;
+
+    const members = schema.oneOf ?? schema.anyOf;
+    if (members) return members.map(print).join(' | ') + nullable;
+    if (schema.allOf) return schema.allOf.map(print).join(' & ') + nullable;
+
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    return (
+      types
+        .map((type) => {
+          switch (type) {
+            case 'string':
+              return 'string';
+            case 'number':
+            case 'integer':
+              return 'number';
+            case 'boolean':
+              return 'boolean';
+            case 'null':
+              return 'null';
+            case 'array':
+              return schema.items
+                ? `${wrap(print(schema.items))}[]`
+                : 'unknown[]';
+            case 'object':
+              return printObject(schema);
+            default:
+              return schema.properties ? printObject(schema) : 'unknown';
+          }
+        })
+        .join(' | ') + nullable
+    );
+  };
+
+  const wrap = (type: string) => (/[|&]/.test(type) ? `(${type})` : type);
+
+  const fields = (schema: JsonSchema) =>
+    Object.entries(schema.properties ?? {}).map(
+      ([key, value]) =>
+        `${propertyKey(key)}${schema.required?.includes(key) ? '' : '?'}: ${print(value)}`,
+    );
+
+  const printObject = (schema: JsonSchema) => {
+    const entries = fields(schema);
+    if (isRecord(schema.additionalProperties)) {
+      entries.push(`[key: string]: ${print(schema.additionalProperties)}`);
+    }
+    if (!entries.length) return 'Record<string, unknown>';
+    return `{ ${entries.join('; ')} }`;
+  };
+
+  const comment = (schema: JsonSchema) =>
+    schema.description ? `/** ${schema.description.trim()} */\n` : '';
+
+  const unions = new Map<string, Union>();
+  const members = new Set<string>();
+  for (const name of names) {
+    const union = asUnion(schemas[name], name);
+    if (!union) continue;
+    unions.set(name, union);
+    for (const member of schemas[name].oneOf ?? schemas[name].anyOf ?? []) {
+      if (member.$ref) members.add(refName(member.$ref));
+    }
+  }
+
+  const referenced = new Set<string>();
+  const collect = (node: unknown): void => {
+    if (Array.isArray(node)) return node.forEach(collect);
+    if (!isRecord(node)) return;
+    if (typeof node.$ref === 'string') referenced.add(refName(node.$ref));
+    Object.values(node).forEach(collect);
+  };
+  for (const name of names) {
+    const union = unions.get(name);
+    if (!union) collect(schemas[name]);
+    else union.variants.forEach(({ payload }) => collect(payload.properties));
+  }
+
+  const blocks: string[] = [];
+  for (const name of names) {
+    const type = identifier(name);
+    const schema = schemas[name];
+    const union = unions.get(name);
+
+    if (!union) {
+      if (members.has(name) && !referenced.has(name)) continue;
+      const body =
+        schema.properties && !schema.additionalProperties
+          ? `{\n${fields(schema)
+              .map((field) => `  ${field};\n`)
+              .join('')}}`
+          : print(schema);
+      blocks.push(`${comment(schema)}export type ${type} = ${body};`);
+      continue;
+    }
+
+    const key =
+      union.discriminant === 'type' ? '' : `, ${literal(union.discriminant)}`;
+    const variants = union.variants.map(({ value, payload }) => {
+      const data = fields(payload);
+      const args = data.length
+        ? `, { ${data.join('; ')} }${key}`
+        : key && `, {}${key}`;
+      return `  Model<${literal(value)}${args}>,\n`;
+    });
+    blocks.push(
+      [
+        `${comment(schema)}export type ${type}Variants = [\n${variants.join('')}];`,
+        `export type ${type} = UnionByArray<${type}Variants${key}>;`,
+        `export const ${type[0].toLowerCase()}${type.slice(1)}Ops = createPipeHandlers<${type}, ${literal(union.discriminant)}>(${literal(union.discriminant)});`,
+      ].join('\n\n'),
+    );
+  }
+
+  const from = literal(options.importFrom ?? 'dismatch');
+  const header = [
+    `// Generated by dismatch-codegen${options.source ? ` from ${options.source}` : ''}. Do not edit.`,
+    ...(unions.size
+      ? [
+          `import { createPipeHandlers } from ${from};`,
+          `import type { Model, UnionByArray } from ${from};`,
+        ]
+      : []),
+  ].join('\n');
+
+  return `${[header, ...blocks].join('\n\n')}\n`;
+}
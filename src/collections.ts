@@ -0,0 +1,215 @@
+import { guard, map, match } from './unions';
+import { locate } from './helpers';
+import {
+  DiscriminantKey,
+  DiscriminantLiteral,
+  DiscriminantValue,
+  DefaultDiscriminant,
+  MapperAt,
+  MatcherAt,
+  NarrowAt,
+  SampleUnionAt,
+  VariantCounts,
+  VariantPartition,
+} from './types';
+
+function variantOf(
+  item: unknown,
+  discriminant: DiscriminantKey,
+  caller: Function,
+): any {
+  return guard(item, discriminant, caller, () => {
+    const [holder, key] = locate(item, discriminant);
+    return holder[key];
+  });
+}
+
+/**
+ * Splits an array of union values by variant, keeping their order.
+ *
+ * @param items - The discriminated union values to split
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A record of narrowed arrays keyed by variant; variants that do not occur have no key
+ * @throws {InvalidUnionError} If an element is not a valid discriminated union
+ *
+ * @example
+ * ```ts
+ * const { email = [], push = [] } = partitionByVariant(notifications);
+ * //      ^? Email[]      ^? Push[]
+ * ```
+ */
+export function partitionByVariant<
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  items: readonly T[],
+  discriminant: Discriminant = 'type' as Discriminant,
+): VariantPartition<T, Discriminant> {
+  const partition: Record<PropertyKey, T[]> = {};
+  for (const item of items) {
+    const variant = variantOf(item, discriminant, partitionByVariant);
+    (partition[variant] ??= []).push(item);
+  }
+  return partition as VariantPartition<T, Discriminant>;
+}
+
+/**
+ * Counts how often each variant occurs in an array of union values.
+ *
+ * @param items - The discriminated union values to count
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A record of counts keyed by variant; variants that do not occur have no key
+ * @throws {InvalidUnionError} If an element is not a valid discriminated union
+ *
+ * @example
+ * ```ts
+ * countByVariant(notifications); // { email: 2, push: 1 }
+ * ```
+ */
+export function countByVariant<
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  items: readonly T[],
+  discriminant: Discriminant = 'type' as Discriminant,
+): VariantCounts<T, Discriminant> {
+  const counts: Record<PropertyKey, number> = {};
+  for (const item of items) {
+    const variant = variantOf(item, discriminant, countByVariant);
+    counts[variant] = (counts[variant] ?? 0) + 1;
+  }
+  return counts as VariantCounts<T, Discriminant>;
+}
+
+/**
+ * Groups an array of union values by a key computed per variant. Every variant must have a
+ * handler returning the group key.
+ *
+ * @param items - The discriminated union values to group
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A curried function that accepts a handler map and returns the groups, keyed by the handlers' results
+ * @throws {InvalidUnionError} If an element is not a valid discriminated union
+ * @throws {UnhandledVariantError} If no handler exists for an element's variant
+ *
+ * @example
+ * ```ts
+ * const inbox = groupBy(notifications)({
+ *   email: ({ starred }) => (starred ? 'important' : 'other'),
+ *   sms: () => 'other',
+ *   push: ({ urgent }) => (urgent ? 'important' : 'other'),
+ * });
+ * // { important?: Notification[]; other?: Notification[] }
+ * ```
+ */
+export function groupBy<
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  items: readonly T[],
+  discriminant: Discriminant = 'type' as Discriminant,
+): <K extends PropertyKey>(
+  grouper: MatcherAt<T, K, Discriminant>,
+) => Partial<Record<K, T[]>> {
+  return (grouper) => {
+    const groups: Partial<Record<PropertyKey, T[]>> = {};
+    for (const item of items) {
+      const key: PropertyKey = match(item as any, discriminant)(grouper as any);
+      (groups[key] ??= []).push(item);
+    }
+    return groups;
+  };
+}
+
+/**
+ * Finds the first element of the given variant.
+ *
+ * @param items - The discriminated union values to search
+ * @param type - The variant value to look for
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns The first matching element, narrowed to the variant, or `undefined`
+ * @throws {InvalidUnionError} If an element checked before the match is not a valid discriminated union
+ *
+ * @example
+ * ```ts
+ * const firstPush = findVariant(notifications, 'push'); // Push | undefined
+ * ```
+ */
+export function findVariant<
+  T extends SampleUnionAt<Discriminant>,
+  U extends DiscriminantValue<T, Discriminant> & DiscriminantLiteral,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  items: readonly T[],
+  type: U,
+  discriminant: Discriminant = 'type' as Discriminant,
+): (T & NarrowAt<T, Discriminant, U>) | undefined {
+  return items.find(
+    (item) => variantOf(item, discriminant, findVariant) === type,
+  ) as (T & NarrowAt<T, Discriminant, U>) | undefined;
+}
+
+/**
+ * Type guard that checks whether every element is of the given variant. `true` for an empty array.
+ *
+ * @param items - The discriminated union values to check
+ * @param type - The variant value every element should have
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns `true` if every element is of the variant, narrowing the array
+ * @throws {InvalidUnionError} If an element checked before a mismatch is not a valid discriminated union
+ *
+ * @example
+ * ```ts
+ * if (everyVariant(selection, 'email')) {
+ *   archive(selection); // Email[]
+ * }
+ * ```
+ */
+export function everyVariant<
+  T extends SampleUnionAt<Discriminant>,
+  U extends DiscriminantValue<T, Discriminant> & DiscriminantLiteral,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  items: readonly T[],
+  type: U,
+  discriminant: Discriminant = 'type' as Discriminant,
+): items is (T & NarrowAt<T, Discriminant, U>)[] {
+  return items.every(
+    (item) => variantOf(item, discriminant, everyVariant) === type,
+  );
+}
+
+/**
+ * Partially transforms every element of an array of union values, like {@link map} applied
+ * to each element. When no element changes, the original array is returned — handy for
+ * state updates that rely on reference equality.
+ *
+ * @param items - The discriminated union values to transform
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A curried function that accepts a partial handler map and returns the transformed array
+ * @throws {InvalidUnionError} If an element is not a valid discriminated union
+ *
+ * @example
+ * ```ts
+ * const next = mapVariants(notifications)({
+ *   sms: (sms) => ({ ...sms, read: true }),
+ * });
+ * next === notifications; // true if there were no SMS
+ * ```
+ */
+export function mapVariants<
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  items: readonly T[],
+  discriminant: Discriminant = 'type' as Discriminant,
+): (mapper: MapperAt<T, Discriminant>) => readonly T[] {
+  return (mapper) => {
+    let changed = false;
+    const result = items.map((item) => {
+      const next = map(item, discriminant)(mapper);
+      if (next !== item) changed = true;
+      return next;
+    });
+    return changed ? result : items;
+  };
+}
@@ -0,0 +1,108 @@
+import { clearStackTrace } from './helpers';
+import { is, map, mapAll, match, matchWithDefault } from './unions';
+import {
+  Constructors,
+  ExhaustiveList,
+  SampleUnion,
+  TakeDiscriminant,
+  UnionDefinition,
+} from './types';
+
+const RESERVED = [
+  'discriminant',
+  'variants',
+  'is',
+  'match',
+  'matchWithDefault',
+  'map',
+  'mapAll',
+];
+
+/**
+ * Defines a discriminated union at runtime. Returns a typed constructor for every variant,
+ * the list of variant names, and `is`/`match`/`matchWithDefault`/`map`/`mapAll` bound to the
+ * union's discriminant.
+ *
+ * @param discriminant - The property used to tell variants apart (e.g. `'type'` or `'kind'`)
+ * @param variants - Every discriminant value of the union, each once
+ * @returns A {@link UnionDefinition} for `T`
+ * @throws {Error} If a variant name is listed twice or collides with one of the bound helpers
+ *
+ * @example
+ * ```ts
+ * type Shape =
+ *   | Model<'circle', { radius: number }>
+ *   | Model<'rectangle', { width: number; height: number }>;
+ *
+ * const Shape = defineUnion<Shape>('type', ['circle', 'rectangle']);
+ *
+ * const circle = Shape.circle({ radius: 5 }); // { type: 'circle', radius: 5 }
+ * Shape.variants;                             // ['circle', 'rectangle']
+ *
+ * const bigger = Shape.map(circle)({
+ *   circle: ({ radius }) => Shape.circle({ radius: radius * 2 }),
+ * });
+ * ```
+ */
+export function defineUnion<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends TakeDiscriminant<T> = TakeDiscriminant<T>,
+>(
+  discriminant: Discriminant,
+  variants: ExhaustiveList<T[Discriminant]>,
+): UnionDefinition<T, Discriminant> {
+  const names: T[Discriminant][] = [...(variants as any)];
+  for (const name of names) {
+    if (RESERVED.includes(name as string)) {
+      throw clearStackTrace(
+        new Error(`Variant name '${String(name)}' is reserved!`),
+        defineUnion,
+      );
+    }
+  }
+
+  const definition: Record<string | number | symbol, unknown> = {
+    ...constructors<T, Discriminant>(discriminant, variants, defineUnion),
+    discriminant,
+    variants: Object.freeze(names),
+    is: (input: T, type: T[Discriminant]) =>
+      is(input as any, type, discriminant),
+    match: (input: T) => match(input as any, discriminant),
+    matchWithDefault: (input: T) =>
+      matchWithDefault(input as any, discriminant),
+    map: (input: T) => map(input as any, discriminant),
+    mapAll: (input: T) => mapAll(input as any, discriminant),
+  };
+  return definition as UnionDefinition<T, Discriminant>;
+}
+
+/**
+ * Builds a constructor per variant, each writing the discriminant after the payload.
+ *
+ * @throws {Error} If a variant name is listed twice
+ */
+export function constructors<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends string | number | symbol,
+>(
+  discriminant: Discriminant,
+  variants: ExhaustiveList<T[Discriminant]>,
+  caller: Function,
+): Constructors<T, Discriminant> {
+  const names: T[Discriminant][] = [...(variants as any)];
+  const creators: Record<string | number | symbol, unknown> = {};
+
+  for (const name of names) {
+    if (names.indexOf(name) !== names.lastIndexOf(name)) {
+      throw clearStackTrace(
+        new Error(`Variant name '${String(name)}' is listed twice!`),
+        caller,
+      );
+    }
+    creators[name] = (payload?: object) => ({
+      ...payload,
+      [discriminant]: name,
+    });
+  }
+  return creators as Constructors<T, Discriminant>;
+}
@@ -0,0 +1,49 @@
+import { isDiscriminantValue, isRecord } from './helpers';
+
+function sampleCandidates(values: readonly unknown[]): string[] {
+  if (!values.length || !values.every(isRecord)) return [];
+  const records = values as Record<string, unknown>[];
+
+  const keys = Object.keys(records[0]).filter((key) =>
+    records.every(
+      (record) =>
+        Object.prototype.hasOwnProperty.call(record, key) &&
+        isDiscriminantValue(record[key]),
+    ),
+  );
+  if (keys.includes('type')) return ['type'];
+  if (records.length < 3) return keys;
+
+  // With enough values, a key no two values share — an id, a name — is not a discriminant
+  const repeating = keys.filter(
+    (key) =>
+      new Set(records.map((record) => record[key])).size < records.length,
+  );
+  return repeating.length ? repeating : keys;
+}
+
+/**
+ * Finds the discriminant of untyped data — the key every value holds a string, number,
+ * boolean or symbol under. `'type'` wins when it qualifies. With three or more values, keys
+ * that no two values share, such as ids, are ignored.
+ *
+ * @param values - Sample values of the union
+ * @returns The discriminant key, or `undefined` when no key or several keys qualify
+ *
+ * @example
+ * ```ts
+ * detectDiscriminant([
+ *   { kind: 'circle', id: 'a', radius: 1 },
+ *   { kind: 'square', id: 'b', side: 2 },
+ *   { kind: 'circle', id: 'c', radius: 3 },
+ * ]); // 'kind'
+ *
+ * detectDiscriminant([{ kind: 'circle', id: 'a' }, { kind: 'square', id: 'b' }]); // undefined
+ * ```
+ */
+export function detectDiscriminant(
+  values: readonly unknown[],
+): string | undefined {
+  const candidates = sampleCandidates(values);
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
@@ -0,0 +1,134 @@
+import { guard } from './unions';
+import { locate, platform } from './helpers';
+import { errorDetails, TimeoutError } from './errors';
+import {
+  DiscriminantPath,
+  SampleUnionAt,
+  TakeDiscriminant,
+  UnionEmitter,
+} from './types';
+
+type Subscription = {
+  pattern: unknown;
+  handler: (event: any) => void;
+  once: boolean;
+};
+
+/** The pattern of `onAny` subscriptions, matching events of every discriminant type. */
+const ANY = Symbol('any');
+
+function matches(pattern: unknown, value: unknown) {
+  if (pattern === ANY) return true;
+  return typeof pattern === 'string' && pattern.endsWith('*')
+    ? typeof value === 'string' && value.startsWith(pattern.slice(0, -1))
+    : pattern === value;
+}
+
+/**
+ * Creates a typed event emitter for a union of events. Handlers subscribe by discriminant
+ * value — receiving the narrowed variant — or by a pattern ending in `*` that matches every
+ * string value starting with the text before it.
+ *
+ * @param discriminant - The property used to tell events apart, or a path to a nested one
+ * @returns A {@link UnionEmitter} for `Event`
+ *
+ * @example
+ * ```ts
+ * type OrderEvent =
+ *   | Model<'order.created', { id: string }>
+ *   | Model<'order.shipped', { id: string; carrier: string }>
+ *   | Model<'invoice.paid', { amount: number }>;
+ *
+ * const events = createUnionEmitter<OrderEvent>('type');
+ *
+ * events.on('order.shipped', ({ carrier }) => notify(carrier));
+ * events.on('order.*', ({ id }) => audit(id)); // created | shipped
+ *
+ * const paid = await events.waitFor('invoice.paid', ({ amount }) => amount > 0);
+ * ```
+ */
+export function createUnionEmitter<
+  Event extends SampleUnionAt<Discriminant>,
+  const Discriminant extends TakeDiscriminant<Event> | DiscriminantPath =
+    TakeDiscriminant<Event>,
+>(discriminant: Discriminant): UnionEmitter<Event, Discriminant> {
+  let subscriptions: Subscription[] = [];
+
+  const subscribe = (
+    pattern: unknown,
+    handler: (event: any) => void,
+    once: boolean,
+  ) => {
+    const subscription = { pattern, handler, once };
+    subscriptions = [...subscriptions, subscription];
+    return () => {
+      subscriptions = subscriptions.filter((s) => s !== subscription);
+    };
+  };
+
+  const emitter: UnionEmitter<Event, Discriminant> = {
+    on: (pattern, handler) => subscribe(pattern, handler, false),
+    once: (pattern, handler) => subscribe(pattern, handler, true),
+    off: (pattern, handler) => {
+      subscriptions = subscriptions.filter(
+        (s) => s.pattern !== pattern || s.handler !== handler,
+      );
+    },
+    onAny: (handler) => subscribe(ANY, handler, false),
+    emit: function emit(event) {
+      const value = guard(event, discriminant, emit, () => {
+        const [holder, key] = locate(event, discriminant);
+        return holder[key];
+      });
+
+      for (const subscription of subscriptions) {
+        if (!matches(subscription.pattern, value)) continue;
+        if (subscription.once) {
+          subscriptions = subscriptions.filter((s) => s !== subscription);
+        }
+        subscription.handler(event);
+      }
+    },
+    waitFor: (pattern, predicate, options = {}) => {
+      const { signal, timeout } = options;
+      if (signal?.aborted) return Promise.reject(signal.reason);
+
+      return new Promise((resolve, reject) => {
+        let timer: unknown;
+        const settle =
+          <V>(fn: (value: V) => void) =>
+          (value: V) => {
+            platform.clearTimeout(timer);
+            signal?.removeEventListener('abort', abort);
+            unsubscribe();
+            fn(value);
+          };
+        const abort = () => settle(reject)(signal!.reason);
+
+        const unsubscribe = subscribe(
+          pattern,
+          (event) => {
+            if (!predicate || predicate(event)) settle(resolve)(event);
+          },
+          false,
+        );
+        signal?.addEventListener('abort', abort);
+        if (timeout !== undefined) {
+          timer = platform.setTimeout(
+            () =>
+              settle(reject)(
+                new TimeoutError({
+                  ...errorDetails(undefined, discriminant),
+                  received: pattern,
+                  timeout,
+                }),
+              ),
+            timeout,
+          );
+        }
+      });
+    },
+  };
+
+  return emitter;
+}
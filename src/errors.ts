@@ -0,0 +1,201 @@
+import { locate, typeName } from './helpers';
+import type { Issue } from './schema';
+import type { DiscriminantKey } from './types';
+
+/** Context shared by every error dismatch throws. */
+export type ErrorDetails = {
+  /** The discriminant key (or path) the call was made with. */
+  discriminant: DiscriminantKey;
+  /** The value found at the discriminant key, or `undefined` if the input is not an object. */
+  received: unknown;
+  /** A redacted, single-line description of the input — field names and value types only. */
+  preview: string;
+};
+
+/** Context of an {@link UnhandledVariantError}. */
+export type UnhandledVariantDetails = ErrorDetails & {
+  /** The handler keys that were provided. */
+  handlers: string[];
+};
+
+/** Context of a {@link ParseError}. */
+export type ParseErrorDetails = ErrorDetails & {
+  /** Every validation failure, located by path. */
+  issues: Issue[];
+};
+
+/** Context of a {@link HandlerError}. */
+export type HandlerErrorDetails = ErrorDetails & {
+  /** What the handler threw or rejected with. */
+  cause: unknown;
+};
+
+/** Context of a {@link TimeoutError}. */
+export type TimeoutErrorDetails = ErrorDetails & {
+  /** The timeout that elapsed, in milliseconds. */
+  timeout: number;
+};
+
+/**
+ * Message builders for every error dismatch throws. Override them with
+ * {@link setErrorMessages} to customise or localise the messages.
+ */
+export type ErrorMessages = {
+  invalidUnion: (details: ErrorDetails) => string;
+  unhandledVariant: (details: UnhandledVariantDetails) => string;
+  parse: (details: ParseErrorDetails) => string;
+  handler: (details: HandlerErrorDetails) => string;
+  timeout: (details: TimeoutErrorDetails) => string;
+};
+
+const DEFAULT_MESSAGES: ErrorMessages = {
+  invalidUnion: ({ discriminant, preview }) =>
+    `Data is not of type discriminated union! Discriminant: '${formatKey(discriminant)}', received: ${preview}`,
+  unhandledVariant: ({ discriminant, received, handlers }) =>
+    `Matcher incomplete! No handler for ${formatValue(received)} at '${formatKey(discriminant)}'. Available handlers: ${handlers.join(', ') || '(none)'}`,
+  parse: ({ issues }) =>
+    `Data does not match the union schema!\n${issues
+      .map(({ path, message }) => `  - ${formatPath(path)}: ${message}`)
+      .join('\n')}`,
+  handler: ({ discriminant, received, cause }) =>
+    `Handler for ${formatValue(received)} at '${formatKey(discriminant)}' failed: ${
+      cause instanceof Error ? cause.message : String(cause)
+    }`,
+  timeout: ({ discriminant, received, timeout }) =>
+    `Handler for ${formatValue(received)} at '${formatKey(discriminant)}' timed out after ${timeout}ms`,
+};
+
+let messages = DEFAULT_MESSAGES;
+
+/**
+ * Overrides the messages of errors thrown by dismatch. Builders not provided keep their
+ * current value; calling without arguments restores the defaults.
+ *
+ * @param overrides - Message builders to replace
+ *
+ * @example
+ * ```ts
+ * setErrorMessages({
+ *   unhandledVariant: ({ received }) => `Kein Handler für ${String(received)}`,
+ * });
+ * ```
+ */
+export function setErrorMessages(overrides?: Partial<ErrorMessages>) {
+  messages = overrides ? { ...messages, ...overrides } : DEFAULT_MESSAGES;
+}
+
+/** Base class of every error dismatch throws. */
+export class DismatchError extends Error {
+  readonly discriminant: DiscriminantKey;
+  readonly received: unknown;
+  readonly preview: string;
+
+  constructor(message: string, details: ErrorDetails) {
+    super(message);
+    this.name = 'DismatchError';
+    this.discriminant = details.discriminant;
+    this.received = details.received;
+    this.preview = details.preview;
+  }
+}
+
+/** Thrown when the input is not a discriminated union with the expected discriminant. */
+export class InvalidUnionError extends DismatchError {
+  constructor(details: ErrorDetails) {
+    super(messages.invalidUnion(details), details);
+    this.name = 'InvalidUnionError';
+  }
+}
+
+/** Thrown when no handler exists for the input's variant. */
+export class UnhandledVariantError extends DismatchError {
+  readonly handlers: string[];
+
+  constructor(details: UnhandledVariantDetails) {
+    super(messages.unhandledVariant(details), details);
+    this.name = 'UnhandledVariantError';
+    this.handlers = details.handlers;
+  }
+}
+
+/** Thrown by `UnionSchema.parse` when the input does not match the schema. */
+export class ParseError extends DismatchError {
+  readonly issues: Issue[];
+
+  constructor(details: ParseErrorDetails) {
+    super(messages.parse(details), details);
+    this.name = 'ParseError';
+    this.issues = details.issues;
+  }
+}
+
+/** Wraps an error thrown or a rejection produced by an async handler. */
+export class HandlerError extends DismatchError {
+  readonly cause: unknown;
+
+  constructor(details: HandlerErrorDetails) {
+    super(messages.handler(details), details);
+    this.name = 'HandlerError';
+    this.cause = details.cause;
+  }
+}
+
+/** Thrown when an async handler does not settle within its timeout. */
+export class TimeoutError extends DismatchError {
+  readonly timeout: number;
+
+  constructor(details: TimeoutErrorDetails) {
+    super(messages.timeout(details), details);
+    this.name = 'TimeoutError';
+    this.timeout = details.timeout;
+  }
+}
+
+const PREVIEW_FIELDS = 8;
+
+/**
+ * Collects the context of an error for `input`, redacting every value except the
+ * discriminant so that previews are safe to log.
+ */
+export function errorDetails(
+  input: unknown,
+  discriminant: DiscriminantKey,
+): ErrorDetails {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { discriminant, received: undefined, preview: typeName(input) };
+  }
+
+  const record = input as Record<string | number | symbol, unknown>;
+  const keys = Object.keys(record);
+  const fields = keys
+    .slice(0, PREVIEW_FIELDS)
+    .map((key) =>
+      key === discriminant
+        ? `${key}: ${formatValue(record[key])}`
+        : `${key}: ${typeName(record[key])}`,
+    );
+  if (keys.length > PREVIEW_FIELDS) fields.push('…');
+
+  const [holder, key] = locate(record, discriminant);
+
+  return {
+    discriminant,
+    received:
+      typeof holder === 'object' && holder !== null ? holder[key] : undefined,
+    preview: fields.length ? `{ ${fields.join(', ')} }` : '{}',
+  };
+}
+
+function formatValue(value: unknown) {
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+function formatKey(discriminant: DiscriminantKey) {
+  return typeof discriminant === 'object'
+    ? discriminant.map(String).join('.')
+    : String(discriminant);
+}
+
+function formatPath(path: (string | number)[]) {
+  return path.length ? path.join('.') : '(root)';
+}
@@ -0,0 +1,565 @@
+/** Options accepted by {@link generateGraphQL}. */
+export type GraphQLCodegenOptions = {
+  /** Name of the schema file, mentioned in the generated header. */
+  source?: string;
+  /** Operation and fragment documents to generate result types for. */
+  documents?: string[];
+  /** Module the generated code imports from. Defaults to `'dismatch'`. */
+  importFrom?: string;
+};
+
+type TypeRef = { nonNull: boolean } & ({ name: string } | { list: TypeRef });
+
+type Field = { name: string; type: TypeRef };
+
+type TypeDefinition = {
+  kind: 'object' | 'interface' | 'union' | 'enum' | 'scalar' | 'input';
+  name: string;
+  description?: string;
+  fields: Field[];
+  interfaces: string[];
+  /** Union members or enum values. */
+  members: string[];
+};
+
+type Selection = {
+  kind: 'field' | 'fragment' | 'spread';
+  /** Field name, fragment name, or type condition of an inline fragment (`''` for none). */
+  name: string;
+  alias?: string;
+  /** Set by `@include` and `@skip`: the field may be absent from the response. */
+  optional: boolean;
+  selections: Selection[];
+};
+
+type Operation = {
+  kind: 'query' | 'mutation' | 'subscription' | 'fragment';
+  name: string;
+  on: string;
+  selections: Selection[];
+};
+
+type Document = {
+  types: Map<string, TypeDefinition>;
+  roots: Record<string, string>;
+  operations: Operation[];
+};
+
+type Collected = { name: string; optional: boolean; selections: Selection[] };
+
+const TOKEN =
+  /[\s,]+|#[^\n\r]*|("""[\s\S]*?"""|"(?:\\.|[^"\\\n\r])*")|(\.\.\.|[!$&():=@[\]{|}])|(-?\d[\d.eE+-]*)|([_A-Za-z]\w*)/y;
+
+const SCALARS: Record<string, string> = {
+  ID: 'string',
+  String: 'string',
+  Int: 'number',
+  Float: 'number',
+  Boolean: 'boolean',
+};
+
+function lineOf(source: string, index: number) {
+  return source.slice(0, index).split('\n').length;
+}
+
+function tokenize(source: string) {
+  const pattern = new RegExp(TOKEN);
+  const tokens: { value: string; index: number }[] = [];
+  while (pattern.lastIndex < source.length) {
+    const index = pattern.lastIndex;
+    const match = pattern.exec(source);
+    if (!match) {
+      throw new Error(
+        `Unexpected character '${source[index]}' at line ${lineOf(source, index)}`,
+      );
+    }
+    const value = match[1] ?? match[2] ?? match[3] ?? match[4];
+    if (value !== undefined) tokens.push({ value, index });
+  }
+  return tokens;
+}
+
+function unquote(value: string) {
+  return value.startsWith('"""')
+    ? value.slice(3, -3).trim()
+    : (JSON.parse(value) as string);
+}
+
+function parse(source: string, document: Document) {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position]?.value;
+  const fail = (expected: string): never => {
+    const token = tokens[position];
+    throw new Error(
+      token
+        ? `Expected ${expected}, found '${token.value}' at line ${lineOf(source, token.index)}`
+        : `Expected ${expected}, found the end of the document`,
+    );
+  };
+  const next = () => tokens[position++]?.value ?? fail('more input');
+  const accept = (value: string) => peek() === value && !!++position;
+  const expect = (value: string) => accept(value) || fail(`'${value}'`);
+  const name = () =>
+    /^[_A-Za-z]/.test(peek() ?? '') ? next() : fail('a name');
+  const description = () =>
+    peek()?.startsWith('"') ? unquote(next()) : undefined;
+
+  const skipGroup = () => {
+    let depth = 0;
+    do {
+      const value = next();
+      if (value === '(' || value === '[' || value === '{') depth++;
+      if (value === ')' || value === ']' || value === '}') depth--;
+    } while (depth > 0);
+  };
+
+  /** Skips directives, returning whether one of them is `@include` or `@skip`. */
+  const directives = () => {
+    let conditional = false;
+    while (accept('@')) {
+      const directive = name();
+      conditional ||= directive === 'include' || directive === 'skip';
+      if (peek() === '(') skipGroup();
+    }
+    return conditional;
+  };
+
+  const typeRef = (): TypeRef => {
+    if (accept('[')) {
+      const list = typeRef();
+      expect(']');
+      return { list, nonNull: accept('!') };
+    }
+    return { name: name(), nonNull: accept('!') };
+  };
+
+  const fields = () => {
+    const result: Field[] = [];
+    if (!accept('{')) return result;
+    while (!accept('}')) {
+      description();
+      const field = name();
+      if (peek() === '(') skipGroup();
+      expect(':');
+      result.push({ name: field, type: typeRef() });
+      directives();
+    }
+    return result;
+  };
+
+  const selectionSet = (): Selection[] => {
+    const selections: Selection[] = [];
+    expect('{');
+    while (!accept('}')) {
+      if (accept('...')) {
+        if (peek() === 'on' || peek() === '@' || peek() === '{') {
+          const on = accept('on') ? name() : '';
+          const optional = directives();
+          selections.push({
+            kind: 'fragment',
+            name: on,
+            optional,
+            selections: selectionSet(),
+          });
+        } else {
+          const spread = name();
+          selections.push({
+            kind: 'spread',
+            name: spread,
+            optional: directives(),
+            selections: [],
+          });
+        }
+        continue;
+      }
+
+      let field = name();
+      let alias: string | undefined;
+      if (accept(':')) {
+        alias = field;
+        field = name();
+      }
+      if (peek() === '(') skipGroup();
+      const optional = directives();
+      selections.push({
+        kind: 'field',
+        name: field,
+        alias,
+        optional,
+        selections: peek() === '{' ? selectionSet() : [],
+      });
+    }
+    return selections;
+  };
+
+  const define = (
+    kind: TypeDefinition['kind'],
+    extension: boolean,
+    description?: string,
+  ) => {
+    const type = name();
+    const existing = document.types.get(type);
+    if (existing && !extension) {
+      throw new Error(`Type '${type}' is defined more than once`);
+    }
+    const definition = existing ?? {
+      kind,
+      name: type,
+      fields: [],
+      interfaces: [],
+      members: [],
+    };
+    definition.description ??= description;
+    document.types.set(type, definition);
+    directives();
+    return definition;
+  };
+
+  while (position < tokens.length) {
+    const text = description();
+    const extension = accept('extend');
+    if (peek() === '{') {
+      document.operations.push({
+        kind: 'query',
+        name: '',
+        on: '',
+        selections: selectionSet(),
+      });
+      continue;
+    }
+
+    const keyword = next();
+    switch (keyword) {
+      case 'schema':
+        directives();
+        expect('{');
+        while (!accept('}')) {
+          const operation = name();
+          expect(':');
+          document.roots[operation] = name();
+        }
+        break;
+      case 'scalar':
+        define('scalar', extension, text);
+        break;
+      case 'type':
+      case 'interface': {
+        const kind = keyword === 'type' ? 'object' : 'interface';
+        const definition = define(kind, extension, text);
+        if (accept('implements')) {
+          accept('&');
+          do definition.interfaces.push(name());
+          while (accept('&'));
+          directives();
+        }
+        definition.fields.push(...fields());
+        break;
+      }
+      case 'union': {
+        const definition = define('union', extension, text);
+        if (accept('=')) {
+          accept('|');
+          do definition.members.push(name());
+          while (accept('|'));
+        }
+        break;
+      }
+      case 'enum': {
+        const definition = define('enum', extension, text);
+        if (accept('{')) {
+          while (!accept('}')) {
+            description();
+            definition.members.push(name());
+            directives();
+          }
+        }
+        break;
+      }
+      case 'input':
+        define('input', extension, text);
+        if (peek() === '{') skipGroup();
+        break;
+      case 'directive':
+        expect('@');
+        name();
+        if (peek() === '(') skipGroup();
+        accept('repeatable');
+        expect('on');
+        accept('|');
+        do name();
+        while (accept('|'));
+        break;
+      case 'query':
+      case 'mutation':
+      case 'subscription': {
+        const operation = /^[_A-Za-z]/.test(peek() ?? '') ? name() : '';
+        if (peek() === '(') skipGroup();
+        directives();
+        document.operations.push({
+          kind: keyword,
+          name: operation,
+          on: '',
+          selections: selectionSet(),
+        });
+        break;
+      }
+      case 'fragment': {
+        const fragment = name();
+        expect('on');
+        const on = name();
+        directives();
+        document.operations.push({
+          kind: 'fragment',
+          name: fragment,
+          on,
+          selections: selectionSet(),
+        });
+        break;
+      }
+      default:
+        position--;
+        fail('a definition');
+    }
+  }
+}
+
+function comment(description: string | undefined) {
+  if (!description) return '';
+  const lines = description.split(/\r?\n/).map((line) => line.trimEnd());
+  return lines.length === 1
+    ? `/** ${lines[0]} */\n`
+    : `/**\n${lines.map((line) => ` *${line && ` ${line}`}\n`).join('')} */\n`;
+}
+
+function wrap(type: string) {
+  let depth = 0;
+  for (const char of type) {
+    if ('<{['.includes(char)) depth++;
+    else if ('>}]'.includes(char)) depth--;
+    else if (char === '|' && !depth) return `(${type})`;
+  }
+  return type;
+}
+
+const camelCase = (name: string) => name[0].toLowerCase() + name.slice(1);
+
+/**
+ * Generates `Model` unions discriminated by `__typename` from a GraphQL schema, and result
+ * types for the operations and fragments of the given documents.
+ *
+ * Object types become `Model<'User', { ... }, '__typename'>`. Every union and interface
+ * becomes a tuple of its possible types, its union via `UnionByArray`, and a
+ * `createPipeHandlers` instance bound to `'__typename'`. In an operation, a union or interface
+ * selection becomes one variant per possible type with only the fields selected for it, so a
+ * possible type without a matching fragment is `Model<'Type', {}, '__typename'>` — it arrives
+ * with `__typename` alone. Clients such as Apollo and urql add `__typename` to these selections.
+ *
+ * @param schema - The schema in GraphQL SDL
+ * @param options - Operation documents, header and import module
+ * @returns The generated TypeScript source
+ * @throws {Error} If a document does not parse, or refers to an unknown type, field or fragment
+ *
+ * @example
+ * ```ts
+ * generateGraphQL(readFileSync('schema.graphql', 'utf8'), { source: 'schema.graphql' });
+ * // export type SearchResultVariants = [User, Post];
+ * // export type SearchResult = UnionByArray<SearchResultVariants, '__typename'>;
+ * // export const searchResultOps = createPipeHandlers<SearchResult, '__typename'>('__typename');
+ * ```
+ */
+export function generateGraphQL(
+  schema: string,
+  options: GraphQLCodegenOptions = {},
+) {
+  const document: Document = { types: new Map(), roots: {}, operations: [] };
+  for (const source of [schema, ...(options.documents ?? [])]) {
+    parse(source, document);
+  }
+
+  const { types, operations } = document;
+  const roots: Record<string, string> = {
+    query: 'Query',
+    mutation: 'Mutation',
+    subscription: 'Subscription',
+    ...document.roots,
+  };
+  const fragments = new Map(
+    operations
+      .filter((operation) => operation.kind === 'fragment')
+      .map((fragment) => [fragment.name, fragment]),
+  );
+
+  const lookup = (name: string) => {
+    const type = types.get(name);
+    if (!type) throw new Error(`Unknown type '${name}'`);
+    return type;
+  };
+
+  const possibleTypes = (name: string) => {
+    const type = lookup(name);
+    if (type.kind === 'union') return type.members;
+    if (type.kind !== 'interface') return [name];
+    return [...types.values()]
+      .filter((t) => t.kind === 'object' && t.interfaces.includes(name))
+      .map((t) => t.name);
+  };
+
+  const named = (ref: TypeRef): string =>
+    'list' in ref ? named(ref.list) : ref.name;
+
+  const print = (ref: TypeRef, printName: (name: string) => string): string => {
+    const type =
+      'list' in ref
+        ? `${wrap(print(ref.list, printName))}[]`
+        : printName(ref.name);
+    return ref.nonNull ? type : `${type} | null`;
+  };
+
+  const reference = (name: string) =>
+    SCALARS[name] ?? (lookup(name).kind === 'scalar' ? 'unknown' : name);
+
+  const collect = (
+    type: string,
+    selections: Selection[],
+    into = new Map<string, Collected>(),
+    optional = false,
+  ) => {
+    for (const selection of selections) {
+      const skippable = optional || selection.optional;
+      if (selection.kind === 'field') {
+        const key = selection.alias ?? selection.name;
+        const existing = into.get(key);
+        if (existing) {
+          existing.selections.push(...selection.selections);
+          existing.optional &&= skippable;
+        } else {
+          into.set(key, {
+            name: selection.name,
+            optional: skippable,
+            selections: [...selection.selections],
+          });
+        }
+        continue;
+      }
+
+      const fragment =
+        selection.kind === 'spread'
+          ? fragments.get(selection.name)
+          : { on: selection.name, selections: selection.selections };
+      if (!fragment) throw new Error(`Unknown fragment '${selection.name}'`);
+      if (!fragment.on || possibleTypes(fragment.on).includes(type)) {
+        collect(type, fragment.selections, into, skippable);
+      }
+    }
+    return into;
+  };
+
+  const printFields = (
+    type: TypeDefinition,
+    fields: Map<string, Collected>,
+  ) => {
+    const entries = [...fields].map(([key, field]) => {
+      const value =
+        field.name === '__typename'
+          ? `'${type.name}'`
+          : printField(type, field);
+      return `${key}${field.optional ? '?' : ''}: ${value}`;
+    });
+    return entries.length ? `{ ${entries.join('; ')} }` : '{}';
+  };
+
+  const printField = (type: TypeDefinition, field: Collected) => {
+    const definition = type.fields.find(({ name }) => name === field.name);
+    if (!definition) {
+      throw new Error(`Type '${type.name}' has no field '${field.name}'`);
+    }
+    const target = named(definition.type);
+    return print(definition.type, (name) =>
+      field.selections.length
+        ? printSelection(target, field.selections)
+        : reference(name),
+    );
+  };
+
+  const printSelection = (name: string, selections: Selection[]): string => {
+    const type = lookup(name);
+    if (type.kind === 'object') {
+      return printFields(type, collect(name, selections));
+    }
+    const variants = possibleTypes(name).map((possible) => {
+      const fields = collect(possible, selections);
+      if (fields.get('__typename')?.name === '__typename') {
+        fields.delete('__typename');
+      }
+      return `Model<'${possible}', ${printFields(lookup(possible), fields)}, '__typename'>`;
+    });
+    return variants.join(' | ') || 'never';
+  };
+
+  const imports = new Set<string>();
+  const blocks: string[] = [];
+  const operationRoots = new Set(Object.values(roots));
+
+  for (const type of types.values()) {
+    if (type.kind === 'enum') {
+      blocks.push(
+        `${comment(type.description)}export type ${type.name} = ${
+          type.members.map((value) => `'${value}'`).join(' | ') || 'never'
+        };`,
+      );
+    } else if (type.kind === 'object' && !operationRoots.has(type.name)) {
+      const fields = type.fields.map(
+        (field) => `${field.name}: ${print(field.type, reference)}`,
+      );
+      imports.add('Model');
+      blocks.push(
+        `${comment(type.description)}export type ${type.name} = Model<'${type.name}', ${
+          fields.length ? `{ ${fields.join('; ')} }` : '{}'
+        }, '__typename'>;`,
+      );
+    } else if (type.kind === 'union' || type.kind === 'interface') {
+      const variants = possibleTypes(type.name);
+      imports.add('UnionByArray').add('createPipeHandlers');
+      blocks.push(
+        [
+          `${comment(type.description)}export type ${type.name}Variants = [\n${variants.map((name) => `  ${name},\n`).join('')}];`,
+          `export type ${type.name} = UnionByArray<${type.name}Variants, '__typename'>;`,
+          `export const ${camelCase(type.name)}Ops = createPipeHandlers<${type.name}, '__typename'>('__typename');`,
+        ].join('\n\n'),
+      );
+    }
+  }
+
+  for (const operation of operations) {
+    if (!operation.name) {
+      throw new Error('Name every operation to generate its result type');
+    }
+    const suffix = operation.kind[0].toUpperCase() + operation.kind.slice(1);
+    const type = operation.name.endsWith(suffix)
+      ? operation.name
+      : operation.name + suffix;
+    const root =
+      operation.kind === 'fragment' ? operation.on : roots[operation.kind];
+    const output = printSelection(root, operation.selections);
+    if (output.includes('Model<')) imports.add('Model');
+    blocks.push(`export type ${type} = ${output};`);
+  }
+
+  const from = `'${options.importFrom ?? 'dismatch'}'`;
+  const typeImports = ['Model', 'UnionByArray'].filter((name) =>
+    imports.has(name),
+  );
+  const header = [
+    `// Generated by dismatch-codegen${options.source ? ` from ${options.source}` : ''}. Do not edit.`,
+    ...(imports.has('createPipeHandlers')
+      ? [`import { createPipeHandlers } from ${from};`]
+      : []),
+    ...(typeImports.length
+      ? [`import type { ${typeImports.join(', ')} } from ${from};`]
+      : []),
+  ].join('\n');
+
+  return `${[header, ...blocks].join('\n\n')}\n`;
+}
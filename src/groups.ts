@@ -0,0 +1,69 @@
+import { guard, lookup } from './unions';
+import { locate } from './helpers';
+import {
+  DiscriminantKey,
+  ExhaustiveGroupMatcher,
+  GroupMatcher,
+  MatcherNResult,
+  SampleUnionAt,
+  VariantGroups,
+} from './types';
+
+/**
+ * Exhaustive pattern matching where one handler can cover a whole group of variants.
+ * Handlers are keyed by group name — receiving the union of the group's variants — or by
+ * variant. TypeScript errors until every variant is covered exactly once: a missing variant
+ * is a missing property, and a handler overlapping another one is rejected.
+ *
+ * @param input - The discriminated union value to match against
+ * @param groups - Named groups of variants, usually declared once with `as const`
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A curried function that accepts a handler map and returns the matched handler's result
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
+ * @throws {UnhandledVariantError} If no handler covers the variant
+ *
+ * @example
+ * ```ts
+ * const outline = {
+ *   round: ['circle', 'ellipse'],
+ *   angular: ['square', 'triangle'],
+ * } as const;
+ *
+ * const corners = matchGroups(shape, outline)({
+ *   round: () => 0,                 // circle | ellipse
+ *   square: () => 4,
+ *   triangle: () => 3,
+ * });
+ * ```
+ */
+export function matchGroups<
+  T extends SampleUnionAt<Discriminant>,
+  const Groups extends VariantGroups<T, Discriminant>,
+  const Discriminant extends DiscriminantKey = 'type',
+>(
+  input: T,
+  groups: Groups,
+  discriminant: Discriminant = 'type' as Discriminant,
+): <H extends GroupMatcher<T, Groups, Discriminant>>(
+  handlers: ExhaustiveGroupMatcher<T, Groups, Discriminant, H>,
+) => MatcherNResult<H> {
+  return guard(
+    input,
+    discriminant,
+    matchGroups,
+    () =>
+      function matchGroup(handlers: Record<string, any>): any {
+        const [holder, key] = locate(input, discriminant);
+        const group = Object.keys(groups).find(
+          (name) => handlers[name] && groups[name].includes(holder[key]),
+        );
+        return lookup(
+          input,
+          handlers,
+          discriminant,
+          group === undefined ? undefined : handlers[group],
+          matchGroup,
+        )(holder);
+      },
+  );
+}
@@ -0,0 +1,67 @@
+import { GuardedCase } from './types';
+
+/**
+ * Builds a {@link guarded} case. When `predicate` is a type guard, the handler receives the
+ * narrowed input.
+ *
+ * @param predicate - Decides whether the case applies
+ * @param handler - Runs when `predicate` returns `true`
+ * @returns A `[predicate, handler]` pair
+ *
+ * @example
+ * ```ts
+ * const hasLabel = (c: Circle): c is Circle & { label: string } => c.label !== undefined;
+ *
+ * when(hasLabel, ({ label }) => label.toUpperCase()); // label: string
+ * ```
+ */
+export function when<Input, Narrowed extends Input, Result>(
+  predicate: (input: Input) => input is Narrowed,
+  handler: (input: Narrowed) => Result,
+): GuardedCase<Input, Result>;
+export function when<Input, Result>(
+  predicate: (input: Input) => boolean,
+  handler: (input: Input) => Result,
+): GuardedCase<Input, Result>;
+export function when<Input, Result>(
+  predicate: (input: Input) => boolean,
+  handler: (input: Input) => Result,
+): GuardedCase<Input, Result> {
+  return [predicate, handler];
+}
+
+/**
+ * Refines a single variant's handler with an ordered list of `[predicate, handler]` cases.
+ * The first case whose predicate passes handles the input; `fallback` handles the rest.
+ * The result is an ordinary handler, so it fits anywhere one is accepted — `match`,
+ * `matchWithDefault`, `createPipeHandlers(...).match` and the mappers.
+ *
+ * @param cases - Checked in order. Build them with {@link when} to narrow with type guards.
+ * @param fallback - Handles the variant when no predicate passes
+ * @returns A handler for the variant
+ *
+ * @example
+ * ```ts
+ * const label = match(shape)({
+ *   circle: guarded(
+ *     [
+ *       [({ radius }) => radius > 100, () => 'huge circle'],
+ *       when(hasLabel, ({ label }) => `circle "${label}"`),
+ *     ],
+ *     ({ radius }) => `circle r=${radius}`,
+ *   ),
+ *   rectangle: ({ width, height }) => `${width}×${height}`,
+ * });
+ * ```
+ */
+export function guarded<Input, Result>(
+  cases: readonly GuardedCase<Input, Result>[],
+  fallback: (input: Input) => Result,
+): (input: Input) => Result {
+  return (input) => {
+    for (const [predicate, handler] of cases) {
+      if (predicate(input)) return handler(input);
+    }
+    return fallback(input);
+  };
+}
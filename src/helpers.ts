@@ -1,4 +1,8 @@
-export {};
+import type {
+  AbortSignalLike,
+  DiscriminantKey,
+  DiscriminantLiteral,
+} from './types';
 
 declare global {
   interface ErrorConstructor {
@@ -9,6 +13,18 @@ declare global {
   }
 }
 
+/** Runtime APIs every supported runtime has, but the ES2020 lib does not declare. */
+type Platform = {
+  AbortController: new () => {
+    readonly signal: AbortSignalLike;
+    abort(reason?: unknown): void;
+  };
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(id: unknown): void;
+};
+
+export const platform = globalThis as unknown as Platform;
+
 export function clearStackTrace(error: unknown, parentFn: Function) {
   if (Error.captureStackTrace) {
     Error.captureStackTrace(error as Error, parentFn);
@@ -16,3 +32,82 @@ export function clearStackTrace(error: unknown, parentFn: Function) {
 
   return error;
 }
+
+export function typeName(input: unknown) {
+  if (input === null) return 'null';
+  if (Array.isArray(input)) return 'array';
+  if (typeof input === 'number' && Number.isNaN(input)) return 'NaN';
+  return typeof input;
+}
+
+/** Whether `value` can be a discriminant: a string, number, boolean or symbol. */
+export function isDiscriminantValue(
+  value: unknown,
+): value is DiscriminantLiteral {
+  const type = typeof value;
+  return (
+    type === 'string' ||
+    type === 'number' ||
+    type === 'boolean' ||
+    type === 'symbol'
+  );
+}
+
+/** Whether `input` is an object that is neither `null` nor an array. */
+export function isRecord(
+  input: unknown,
+): input is Record<PropertyKey, unknown> {
+  return typeof input === 'object' && input !== null && !Array.isArray(input);
+}
+
+/**
+ * The discriminant value a handler key stands for: `'true'` and `'false'` are booleans and
+ * numeric keys such as `'404'` are numbers. Any other key is the value itself.
+ */
+export function fromHandlerKey(key: string | symbol): DiscriminantLiteral {
+  if (key === 'true' || key === 'false') return key === 'true';
+  if (typeof key === 'string' && key !== '' && String(Number(key)) === key)
+    return Number(key);
+  return key;
+}
+
+/**
+ * Finds the object holding the discriminant and the discriminant's own key. For a path,
+ * every key but the last is followed; a missing step yields an `undefined` holder.
+ */
+export function locate(
+  input: unknown,
+  discriminant: DiscriminantKey,
+): [holder: any, key: string | number | symbol] {
+  if (typeof discriminant !== 'object') return [input, discriminant];
+
+  let holder: any = input;
+  for (const key of discriminant.slice(0, -1)) {
+    holder =
+      typeof holder === 'object' && holder !== null ? holder[key] : undefined;
+  }
+  return [holder, discriminant[discriminant.length - 1]];
+}
+
+/**
+ * Puts `holder` back where {@link locate} found the original one, copying every enclosing
+ * object on the way. Returns `input` itself when the holder did not change.
+ */
+export function replaceAt<T>(
+  input: T,
+  discriminant: DiscriminantKey,
+  holder: unknown,
+): T {
+  if (typeof discriminant !== 'object') return holder as T;
+  if (locate(input, discriminant)[0] === holder) return input;
+
+  const parents = discriminant.slice(0, -1);
+  const rebuild = (target: any, depth: number): any => {
+    if (depth === parents.length) return holder;
+    const key = parents[depth];
+    const copy = Array.isArray(target) ? [...target] : { ...target };
+    copy[key] = rebuild(target[key], depth + 1);
+    return copy;
+  };
+  return rebuild(input, 0);
+}
@@ -3,12 +3,135 @@ export {
   matchWithDefault,
   map,
   mapAll,
+  mapData,
+  mapAllData,
+  mapTo,
+  mapAllTo,
   createPipeHandlers,
   is,
+  isOneOf,
   isUnion,
 } from './unions';
+export { compile } from './compile';
+export { matchAsync, mapAsync } from './async';
+export { matchN } from './tuples';
+export { guarded, when } from './guarded';
+export { matchGroups } from './groups';
+export {
+  partitionByVariant,
+  countByVariant,
+  groupBy,
+  findVariant,
+  everyVariant,
+  mapVariants,
+} from './collections';
+export { createMachine } from './machine';
+export { createReducer, combineReducers, createActions } from './reducer';
+export { createUnionEmitter } from './emitter';
+export { tagging } from './tagging';
+export { defineUnion } from './define';
+export { detectDiscriminant } from './detect';
+export {
+  DismatchError,
+  InvalidUnionError,
+  UnhandledVariantError,
+  ParseError,
+  HandlerError,
+  TimeoutError,
+  setErrorMessages,
+} from './errors';
+export type {
+  ErrorDetails,
+  UnhandledVariantDetails,
+  ParseErrorDetails,
+  HandlerErrorDetails,
+  TimeoutErrorDetails,
+  ErrorMessages,
+} from './errors';
+export {
+  unionSchema,
+  string,
+  number,
+  boolean,
+  literal,
+  array,
+  object,
+  optional,
+  toJSONSchema,
+} from './schema';
+export type {
+  Schema,
+  ObjectSchema,
+  Infer,
+  Issue,
+  ParseResult,
+  PayloadSchemas,
+  UnionSchema,
+  UnionSchemaOptions,
+  JSONSchema,
+} from './schema';
+export { Result } from './result';
+export type { Ok, Err, OkValue, ErrValue } from './result';
+export { Option } from './option';
+export type { Some, None, SomeValue } from './option';
+export { tagged } from './interop';
+export type { EitherLike, OptionLike, ExitLike } from './interop';
 import type { Model } from './types';
-export type { Model, TakeDiscriminant } from './types';
+export type {
+  Model,
+  TakeDiscriminant,
+  DiscriminantCandidates,
+  DefaultDiscriminant,
+  DiscriminantLiteral,
+  HandlerKey,
+  Variant,
+  Payload,
+  UnionDefinition,
+  AsyncMatcher,
+  AsyncMapper,
+  AsyncResult,
+  AsyncOptions,
+  AbortSignalLike,
+  DataMapper,
+  DataMapperAll,
+  DataMapperAt,
+  DataMapperAllAt,
+  MapperTo,
+  MappedTo,
+  MappedResults,
+  DiscriminantPath,
+  DiscriminantKey,
+  DiscriminantValue,
+  UnionAt,
+  MatcherN,
+  MatcherNResult,
+  PatternKey,
+  GuardedCase,
+  VariantGroups,
+  GroupMatcher,
+  VariantPartition,
+  VariantCounts,
+  Transitions,
+  AllowedEvent,
+  MachineActions,
+  MachineListener,
+  MachineConfig,
+  Machine,
+  Reducer,
+  ReducerHandlers,
+  CombinedState,
+  CombinedAction,
+  Constructors,
+  ExhaustiveList,
+  EventPattern,
+  PatternEvent,
+  UnionEmitter,
+  AdjacentlyTagged,
+  ExternallyTagged,
+  InternallyTagged,
+  TaggingCodec,
+  Tagging,
+} from './types';
 
 /**
  * Utility type that extracts a discriminated union from an array of {@link Model} types.
@@ -0,0 +1,229 @@
+import {
+  fold,
+  is,
+  isOneOf,
+  map,
+  mapAll,
+  match,
+  matchWithDefault,
+} from './unions';
+import { Result } from './result';
+import { Option } from './option';
+import {
+  DiscriminantLiteral,
+  DiscriminantValue,
+  Matcher,
+  Model,
+  NarrowAt,
+  SampleUnionAt,
+} from './types';
+
+/**
+ * The shape of an fp-ts or Effect `Either` — a union on `_tag`. Values from either library
+ * are assignable to it; neither package is needed at runtime.
+ */
+export type EitherLike<E, A> =
+  Model<'Left', { left: E }, '_tag'> | Model<'Right', { right: A }, '_tag'>;
+
+/** The shape of an fp-ts or Effect `Option` — a union on `_tag`. */
+export type OptionLike<A> =
+  Model<'None', {}, '_tag'> | Model<'Some', { value: A }, '_tag'>;
+
+/**
+ * The shape of an Effect `Exit`. `Cause` is whatever a failure carries — Effect's
+ * `Cause<E>` for real exits.
+ */
+export type ExitLike<A, Cause = unknown> =
+  | Model<'Success', { value: A }, '_tag'>
+  | Model<'Failure', { cause: Cause }, '_tag'>;
+
+function matchTagged<T extends SampleUnionAt<'_tag'>>(input: T) {
+  return match(input, '_tag');
+}
+
+function matchTaggedWithDefault<T extends SampleUnionAt<'_tag'>>(input: T) {
+  return matchWithDefault(input, '_tag');
+}
+
+function mapTagged<T extends SampleUnionAt<'_tag'>>(input: T) {
+  return map(input, '_tag');
+}
+
+function mapAllTagged<T extends SampleUnionAt<'_tag'>>(input: T) {
+  return mapAll(input, '_tag');
+}
+
+function isTagged<
+  T extends SampleUnionAt<'_tag'>,
+  U extends DiscriminantValue<T, '_tag'> & DiscriminantLiteral,
+>(union: T, type: U): union is T & NarrowAt<T, '_tag', U> {
+  return is(union, type, '_tag');
+}
+
+function isOneOfTagged<
+  T extends SampleUnionAt<'_tag'>,
+  const U extends readonly (DiscriminantValue<T, '_tag'> &
+    DiscriminantLiteral)[],
+>(union: T, types: U): union is T & NarrowAt<T, '_tag', U[number]> {
+  return isOneOf(union, types, '_tag');
+}
+
+/**
+ * Handlers-first exhaustive match on an `Either`. `E` and `A` are inferred from the value
+ * when used in a `pipe`, or from the handlers' parameters otherwise.
+ *
+ * @throws {InvalidUnionError} If the input is not a `_tag` union
+ *
+ * @example
+ * ```ts
+ * pipe(
+ *   E.tryCatch(() => JSON.parse(text), String),
+ *   tagged.either({ Left: ({ left }) => report(left), Right: ({ right }) => render(right) }),
+ * );
+ * ```
+ */
+function matchEither<E, A, R>(handlers: Matcher<EitherLike<E, A>, R, '_tag'>) {
+  return function either(value: EitherLike<E, A>): R {
+    return fold(value, '_tag', handlers, either);
+  };
+}
+
+/**
+ * Handlers-first exhaustive match on an `Option`.
+ *
+ * @throws {InvalidUnionError} If the input is not a `_tag` union
+ */
+function matchOption<A, R>(handlers: Matcher<OptionLike<A>, R, '_tag'>) {
+  return function option(value: OptionLike<A>): R {
+    return fold(value, '_tag', handlers, option);
+  };
+}
+
+/**
+ * Handlers-first exhaustive match on an `Exit`.
+ *
+ * @throws {InvalidUnionError} If the input is not a `_tag` union
+ */
+function matchExit<A, Cause, R>(
+  handlers: Matcher<ExitLike<A, Cause>, R, '_tag'>,
+) {
+  return function exit(value: ExitLike<A, Cause>): R {
+    return fold(value, '_tag', handlers, exit);
+  };
+}
+
+/** Converts an `Either` to a {@link Result}: `Right` becomes `ok`, `Left` becomes `err`. */
+function fromEither<E, A>(either: EitherLike<E, A>): Result<A, E> {
+  return fold<Result<A, E>>(
+    either,
+    '_tag',
+    {
+      Left: ({ left }) => Result.err(left),
+      Right: ({ right }) => Result.ok(right),
+    },
+    fromEither,
+  );
+}
+
+/** Converts a {@link Result} to a plain fp-ts-compatible `Either`. */
+function toEither<A, E>(result: Result<A, E>): EitherLike<E, A> {
+  return fold<EitherLike<E, A>>(
+    result,
+    'type',
+    {
+      ok: ({ value }) => ({ _tag: 'Right', right: value }),
+      err: ({ error }) => ({ _tag: 'Left', left: error }),
+    },
+    toEither,
+  );
+}
+
+/** Converts an `Option` to an {@link Option}. */
+function fromOption<A>(option: OptionLike<A>): Option<A> {
+  return fold<Option<A>>(
+    option,
+    '_tag',
+    { Some: ({ value }) => Option.some(value), None: () => Option.none },
+    fromOption,
+  );
+}
+
+/** Converts an {@link Option} to a plain fp-ts-compatible `Option`. */
+function toOption<A>(option: Option<A>): OptionLike<A> {
+  return fold<OptionLike<A>>(
+    option,
+    'type',
+    {
+      some: ({ value }) => ({ _tag: 'Some', value }),
+      none: () => ({ _tag: 'None' }),
+    },
+    toOption,
+  );
+}
+
+/** Converts an `Exit` to a {@link Result} whose error is the failure's cause. */
+function fromExit<A, Cause>(exit: ExitLike<A, Cause>): Result<A, Cause> {
+  return fold<Result<A, Cause>>(
+    exit,
+    '_tag',
+    {
+      Success: ({ value }) => Result.ok(value),
+      Failure: ({ cause }) => Result.err(cause),
+    },
+    fromExit,
+  );
+}
+
+/** Converts a {@link Result} to a plain `Exit`-shaped value. */
+function toExit<A, Cause>(result: Result<A, Cause>): ExitLike<A, Cause> {
+  return fold<ExitLike<A, Cause>>(
+    result,
+    'type',
+    {
+      ok: ({ value }) => ({ _tag: 'Success', value }),
+      err: ({ error }) => ({ _tag: 'Failure', cause: error }),
+    },
+    toExit,
+  );
+}
+
+/**
+ * Interop with unions discriminated by `_tag`, such as fp-ts and Effect data types, without
+ * depending on either package.
+ *
+ * - `match`, `matchWithDefault`, `map`, `mapAll`, `is` and `isOneOf` work like their
+ *   top-level namesakes with `'_tag'` already bound.
+ * - `either`, `option` and `exit` match handlers-first, inferring the generic parameters of
+ *   the value, so they drop into a `pipe`.
+ * - `fromEither`/`toEither`, `fromOption`/`toOption` and `fromExit`/`toExit` convert to and
+ *   from {@link Result} and {@link Option}. The `to*` functions build plain objects, which
+ *   fp-ts accepts; build Effect values with Effect's own constructors.
+ *
+ * @example
+ * ```ts
+ * import * as E from 'fp-ts/Either';
+ *
+ * tagged.match(E.right(1))({ Left: ({ left }) => left, Right: ({ right }) => right });
+ *
+ * const label = pipe(O.some(1), tagged.option({ None: () => '-', Some: ({ value }) => `${value}` }));
+ *
+ * const result = tagged.fromEither(E.left('boom')); // { type: 'err', error: 'boom' }
+ * ```
+ */
+export const tagged = {
+  match: matchTagged,
+  matchWithDefault: matchTaggedWithDefault,
+  map: mapTagged,
+  mapAll: mapAllTagged,
+  is: isTagged,
+  isOneOf: isOneOfTagged,
+  either: matchEither,
+  option: matchOption,
+  exit: matchExit,
+  fromEither,
+  toEither,
+  fromOption,
+  toOption,
+  fromExit,
+  toExit,
+};
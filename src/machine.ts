@@ -0,0 +1,153 @@
+import { guard } from './unions';
+import { locate } from './helpers';
+import { UnhandledVariantError, errorDetails } from './errors';
+import {
+  DiscriminantKey,
+  DiscriminantPath,
+  Machine,
+  MachineConfig,
+  MachineListener,
+  SampleUnionAt,
+  TakeDiscriminant,
+  Transitions,
+} from './types';
+
+type Handler = ((state: unknown, event: unknown) => unknown) | null;
+type Action<State, Event> = (state: State, event: Event) => void;
+
+/** The own entry of `table` for the variant of `input`; throws `UnhandledVariantError` without one. */
+function entryFor<Entry>(
+  table: Record<string, Entry>,
+  input: unknown,
+  discriminant: DiscriminantKey,
+): Entry {
+  const [holder, key] = locate(input, discriminant);
+  const variant = holder[key];
+  if (Object.prototype.hasOwnProperty.call(table, variant)) {
+    return table[variant];
+  }
+  throw new UnhandledVariantError({
+    ...errorDetails(input, discriminant),
+    handlers: Reflect.ownKeys(table).map(String),
+  });
+}
+
+/**
+ * Creates a finite state machine over a state union and an event union. The transition
+ * table has a row per state and an entry per event in every row: a handler returning the
+ * next state, or `null` to ignore the event. A missing entry is a compile error, and
+ * `transition` only accepts the events handled in the given state.
+ *
+ * @param stateDiscriminant - The property used to tell states apart, or a path to a nested one
+ * @param eventDiscriminant - The property used to tell events apart, or a path to a nested one
+ * @returns A curried function that accepts the transition table with optional `entry` / `exit` actions and returns the {@link Machine}
+ *
+ * @example
+ * ```ts
+ * type Light = Model<'off'> | Model<'on', { brightness: number }>;
+ * type Input = Model<'toggle'> | Model<'dim', { by: number }>;
+ *
+ * const light = createMachine<Light, Input>('type', 'type')({
+ *   transitions: {
+ *     off: {
+ *       toggle: () => ({ type: 'on', brightness: 100 }),
+ *       dim: null,
+ *     },
+ *     on: {
+ *       toggle: () => ({ type: 'off' }),
+ *       dim: ({ brightness }, { by }) => ({ type: 'on', brightness: brightness - by }),
+ *     },
+ *   },
+ *   entry: { on: () => console.log('lights on') },
+ * });
+ *
+ * const off: Light = { type: 'off' };
+ * light.transition(off, { type: 'toggle' });      // { type: 'on', brightness: 100 }
+ * light.transition(off, { type: 'dim', by: 10 }); // ❌ TS error: `dim` is ignored in `off`
+ * ```
+ */
+export function createMachine<
+  State extends SampleUnionAt<StateDiscriminant>,
+  Event extends SampleUnionAt<EventDiscriminant>,
+  const StateDiscriminant extends TakeDiscriminant<State> | DiscriminantPath =
+    TakeDiscriminant<State>,
+  const EventDiscriminant extends TakeDiscriminant<Event> | DiscriminantPath =
+    TakeDiscriminant<Event>,
+>(stateDiscriminant: StateDiscriminant, eventDiscriminant: EventDiscriminant) {
+  return <
+    Table extends Transitions<
+      State,
+      Event,
+      StateDiscriminant,
+      EventDiscriminant
+    >,
+  >({
+    transitions,
+    entry = {},
+    exit = {},
+  }: MachineConfig<State, Event, Table, StateDiscriminant>): Machine<
+    State,
+    Event,
+    Table,
+    StateDiscriminant,
+    EventDiscriminant
+  > => {
+    type Built = Machine<
+      State,
+      Event,
+      Table,
+      StateDiscriminant,
+      EventDiscriminant
+    >;
+    const listeners = new Set<MachineListener<State, Event>>();
+    const rows = transitions as Record<string, Record<string, Handler>>;
+    const onEntry = entry as Record<string, Action<State, Event> | undefined>;
+    const onExit = exit as Record<string, Action<State, Event> | undefined>;
+
+    const handlerFor = (state: State, event: Event, caller: Function) => {
+      const row = guard(state, stateDiscriminant, caller, () =>
+        entryFor(rows, state, stateDiscriminant),
+      );
+      return guard(event, eventDiscriminant, caller, () =>
+        entryFor(row, event, eventDiscriminant),
+      );
+    };
+
+    const variantOf = (state: State, caller: Function) =>
+      guard(state, stateDiscriminant, caller, () => {
+        const [holder, key] = locate(state, stateDiscriminant);
+        return holder[key];
+      });
+
+    function transition(state: State, event: Event): State {
+      const handler = handlerFor(state, event, transition);
+      if (handler === null) return state;
+
+      const next = handler(state, event) as State;
+      const from = variantOf(state, transition);
+      const to = variantOf(next, transition);
+      if (from !== to) {
+        onExit[from]?.(state, event);
+        onEntry[to]?.(next, event);
+      }
+      listeners.forEach((listener) => listener(next, state, event));
+      return next;
+    }
+
+    function can(state: State, event: Event) {
+      return handlerFor(state, event, can) !== null;
+    }
+
+    return {
+      transitions,
+      transition: transition as Built['transition'],
+      can: can as Built['can'],
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+    };
+  };
+}
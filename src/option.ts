@@ -0,0 +1,207 @@
+import { fold } from './unions';
+import { Model } from './types';
+
+/** The present variant of an {@link Option}. */
+export type Some<T> = Model<'some', { value: T }>;
+
+/** The absent variant of an {@link Option}. */
+export type None = Model<'none'>;
+
+/**
+ * A value that may be absent. A discriminated union on `type`, so it works with `match`,
+ * `is` and `createPipeHandlers` like any other union.
+ *
+ * @typeParam T - The value when present
+ */
+export type Option<T> = Some<T> | None;
+
+/** The value type of an {@link Option} type. */
+export type SomeValue<O> = O extends Some<infer T> ? T : never;
+
+function foldOption<R>(
+  option: unknown,
+  onSome: (value: any) => R,
+  onNone: () => R,
+  caller: Function,
+): R {
+  return fold(
+    option,
+    'type',
+    { some: ({ value }) => onSome(value), none: onNone },
+    caller,
+  );
+}
+
+/** Creates a present {@link Option}. */
+function some<T>(value: T): Option<T> {
+  return { type: 'some', value };
+}
+
+/** The absent {@link Option}. Frozen, so it can be shared. */
+const none: Option<never> = Object.freeze({ type: 'none' });
+
+/**
+ * Transforms a present value; `none` passes through.
+ *
+ * @param fn - Receives the present value
+ * @returns A function from `Option<T>` to `Option<U>`
+ * @throws {InvalidUnionError} If the input is not an `Option`
+ *
+ * @example
+ * ```ts
+ * pipe(findUser(id), Option.map((user) => user.name));
+ * ```
+ */
+function mapSome<T, U>(fn: (value: T) => U) {
+  return function map(option: Option<T>): Option<U> {
+    return foldOption<Option<U>>(
+      option,
+      (value) => some(fn(value)),
+      () => none,
+      map,
+    );
+  };
+}
+
+/**
+ * Chains a lookup that may come up empty onto a present value; `none` passes through.
+ *
+ * @param fn - Receives the present value and returns the next `Option`
+ * @returns A function from `Option<T>` to `Option<U>`
+ * @throws {InvalidUnionError} If the input is not an `Option`
+ */
+function flatMap<T, U>(fn: (value: T) => Option<U>) {
+  return function flatMap(option: Option<T>): Option<U> {
+    return foldOption(option, fn, () => none, flatMap);
+  };
+}
+
+/**
+ * Unwraps a present value, or returns `fallback` for `none`.
+ *
+ * @returns A function from `Option<T>` to `T | U`
+ * @throws {InvalidUnionError} If the input is not an `Option`
+ */
+function unwrapOr<U>(fallback: U) {
+  return function unwrapOr<T>(option: Option<T>): T | U {
+    return foldOption(
+      option,
+      (value) => value,
+      () => fallback,
+      unwrapOr,
+    );
+  };
+}
+
+/**
+ * Combines options into an option of all their values, in order — `none` if any of them is
+ * absent.
+ *
+ * @throws {InvalidUnionError} If an element is not an `Option`
+ *
+ * @example
+ * ```ts
+ * Option.all([Option.some(1), Option.some('a')]); // { type: 'some', value: [1, 'a'] }
+ * ```
+ */
+function all<const Options extends readonly Option<unknown>[]>(
+  options: Options,
+): Option<{ -readonly [K in keyof Options]: SomeValue<Options[K]> }> {
+  const values: unknown[] = [];
+  for (const option of options) {
+    const present = foldOption(
+      option,
+      (value) => values.push(value) > 0,
+      () => false,
+      all,
+    );
+    if (!present) return none;
+  }
+  return some(values as any);
+}
+
+/**
+ * Returns the first present option among `options`, or `none` if all of them are absent.
+ *
+ * @throws {InvalidUnionError} If an element is not an `Option`
+ */
+function any<const Options extends readonly Option<unknown>[]>(
+  options: Options,
+): Option<SomeValue<Options[number]>> {
+  for (const option of options) {
+    if (
+      foldOption(
+        option,
+        () => true,
+        () => false,
+        any,
+      )
+    ) {
+      return option as Some<SomeValue<Options[number]>>;
+    }
+  }
+  return none;
+}
+
+/**
+ * Wraps a value that may be `null` or `undefined`: `none` for those, a present option for
+ * anything else.
+ *
+ * @example
+ * ```ts
+ * const email = Option.fromNullable(user.email);
+ * ```
+ */
+function fromNullable<T>(value: T): Option<NonNullable<T>> {
+  return value === null || value === undefined ? none : some(value);
+}
+
+/**
+ * Settles a promise into an `Option` — present with its value, or `none` if it rejects.
+ * The returned promise never rejects.
+ */
+function fromPromise<T>(promise: PromiseLike<T>): Promise<Option<T>> {
+  return Promise.resolve(promise).then(some, () => none);
+}
+
+/**
+ * Calls `fn`, returning a present option with its return value, or `none` if it throws.
+ *
+ * @example
+ * ```ts
+ * const config = Option.tryCatch(() => JSON.parse(text) as Config);
+ * ```
+ */
+function tryCatch<T>(fn: () => T): Option<T> {
+  try {
+    return some(fn());
+  } catch {
+    return none;
+  }
+}
+
+/**
+ * Constructors and pipe-friendly combinators for {@link Option}. Combinators take their
+ * function first and return a function of the option, so they compose in `pipe` utilities.
+ *
+ * @example
+ * ```ts
+ * const city = pipe(
+ *   Option.fromNullable(user.address),
+ *   Option.flatMap((address) => Option.fromNullable(address.city)),
+ *   Option.unwrapOr('Unknown'),
+ * );
+ * ```
+ */
+export const Option = {
+  some,
+  none,
+  map: mapSome,
+  flatMap,
+  unwrapOr,
+  all,
+  any,
+  fromNullable,
+  fromPromise,
+  tryCatch,
+};
@@ -0,0 +1,124 @@
+import { isUnion } from './unions';
+import { locate } from './helpers';
+import { constructors } from './define';
+import {
+  CombinedAction,
+  CombinedState,
+  Constructors,
+  DiscriminantKey,
+  ExhaustiveList,
+  Reducer,
+  ReducerHandlers,
+  SampleUnion,
+  SampleUnionAt,
+  TakeDiscriminant,
+} from './types';
+
+/**
+ * Creates a Redux-compatible reducer with a handler for every action variant. Actions
+ * without a handler — foreign actions such as Redux's `@@INIT`, or values that are not
+ * actions at all — return the state unchanged instead of throwing.
+ *
+ * @param initial - The state used when the reducer is called with `undefined`
+ * @param handlers - The next state for every action variant
+ * @param discriminant - The property used to tell actions apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A {@link Reducer} over `State` and `Action`
+ *
+ * @example
+ * ```ts
+ * type CounterAction =
+ *   | Model<'increment', { by: number }>
+ *   | Model<'decrement', { by: number }>
+ *   | Model<'reset'>;
+ *
+ * const counter = createReducer<number, CounterAction>(0, {
+ *   increment: (count, { by }) => count + by,
+ *   decrement: (count, { by }) => count - by,
+ *   reset: () => 0,
+ * });
+ *
+ * counter(undefined, { type: 'increment', by: 2 }); // 2
+ * ```
+ */
+export function createReducer<
+  State,
+  Action extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = 'type',
+>(
+  initial: State,
+  handlers: ReducerHandlers<State, Action, Discriminant>,
+  discriminant: Discriminant = 'type' as Discriminant,
+): Reducer<State, Action> {
+  const table = handlers as Record<
+    string,
+    (state: State, action: Action) => State
+  >;
+
+  return (state = initial, action) => {
+    if (!isUnion(action, discriminant)) return state;
+    const [holder, key] = locate(action, discriminant);
+    return Object.prototype.hasOwnProperty.call(table, holder[key])
+      ? table[holder[key]](state, action)
+      : state;
+  };
+}
+
+/**
+ * Combines reducers into one whose state has a slice per reducer. Every action is passed to
+ * every slice, so each reducer sees — and passes through — the others' actions. When no slice
+ * changes, the previous state object is returned.
+ *
+ * @param reducers - A reducer per state slice
+ * @returns A {@link Reducer} over the combined state and the union of the slices' actions
+ *
+ * @example
+ * ```ts
+ * const root = combineReducers({ counter, todos });
+ * // Reducer<{ counter: number; todos: Todo[] }, CounterAction | TodoAction>
+ * ```
+ */
+export function combineReducers<
+  Reducers extends Record<string, Reducer<any, any>>,
+>(
+  reducers: Reducers,
+): Reducer<CombinedState<Reducers>, CombinedAction<Reducers>> {
+  const keys = Object.keys(reducers);
+
+  return (state, action) => {
+    const previous = (state ?? {}) as Record<string, unknown>;
+    const next: Record<string, unknown> = {};
+    let changed = state === undefined;
+    for (const key of keys) {
+      next[key] = reducers[key](previous[key], action);
+      if (next[key] !== previous[key]) changed = true;
+    }
+    return (changed ? next : state) as CombinedState<Reducers>;
+  };
+}
+
+/**
+ * Creates typed action creators for the given action variants, each filling in the
+ * discriminant. Variants without data accept an optional payload.
+ *
+ * @param discriminant - The property used to tell actions apart (e.g. `'type'`)
+ * @param types - Every discriminant value of the action union, each once
+ * @returns A {@link Constructors} record with an action creator per variant
+ * @throws {Error} If a type is listed twice
+ *
+ * @example
+ * ```ts
+ * const actions = createActions<CounterAction>('type', ['increment', 'decrement', 'reset']);
+ *
+ * dispatch(actions.increment({ by: 2 })); // { type: 'increment', by: 2 }
+ * dispatch(actions.reset());              // { type: 'reset' }
+ * ```
+ */
+export function createActions<
+  Action extends SampleUnion<Discriminant>,
+  Discriminant extends TakeDiscriminant<Action> = TakeDiscriminant<Action>,
+>(
+  discriminant: Discriminant,
+  types: ExhaustiveList<Action[Discriminant]>,
+): Constructors<Action, Discriminant> {
+  return constructors<Action, Discriminant>(discriminant, types, createActions);
+}
@@ -0,0 +1,266 @@
+import { fold } from './unions';
+import { Model } from './types';
+
+/** The successful variant of a {@link Result}. */
+export type Ok<T> = Model<'ok', { value: T }>;
+
+/** The failed variant of a {@link Result}. */
+export type Err<E> = Model<'err', { error: E }>;
+
+/**
+ * The outcome of an operation that can fail. A discriminated union on `type`, so it works
+ * with `match`, `is` and `createPipeHandlers` like any other union.
+ *
+ * @typeParam T - The value of a success
+ * @typeParam E - The error of a failure. Defaults to `Error`.
+ */
+export type Result<T, E = Error> = Ok<T> | Err<E>;
+
+/** The success value of a {@link Result} type. */
+export type OkValue<R> = R extends Ok<infer T> ? T : never;
+
+/** The error of a {@link Result} type. */
+export type ErrValue<R> = R extends Err<infer E> ? E : never;
+
+function foldResult<R>(
+  result: unknown,
+  onOk: (value: any) => R,
+  onErr: (error: any) => R,
+  caller: Function,
+): R {
+  return fold(
+    result,
+    'type',
+    { ok: ({ value }) => onOk(value), err: ({ error }) => onErr(error) },
+    caller,
+  );
+}
+
+/** Creates a successful {@link Result}. */
+function ok<T>(value: T): Result<T, never> {
+  return { type: 'ok', value };
+}
+
+/** Creates a failed {@link Result}. */
+function err<E>(error: E): Result<never, E> {
+  return { type: 'err', error };
+}
+
+/**
+ * Transforms the value of a success; failures pass through unchanged (same reference).
+ *
+ * @param fn - Receives the success value
+ * @returns A function from `Result<T, E>` to `Result<U, E>`
+ * @throws {InvalidUnionError} If the input is not a `Result`
+ *
+ * @example
+ * ```ts
+ * pipe(parsePort(input), Result.map((port) => port + 1));
+ * ```
+ */
+function mapOk<T, U>(fn: (value: T) => U) {
+  return function map<E>(result: Result<T, E>): Result<U, E> {
+    return foldResult<Result<U, E>>(
+      result,
+      (value) => ok(fn(value)),
+      () => result as Err<E>,
+      map,
+    );
+  };
+}
+
+/**
+ * Transforms the error of a failure; successes pass through unchanged (same reference).
+ *
+ * @param fn - Receives the error
+ * @returns A function from `Result<T, E>` to `Result<T, F>`
+ * @throws {InvalidUnionError} If the input is not a `Result`
+ */
+function mapErr<E, F>(fn: (error: E) => F) {
+  return function mapErr<T>(result: Result<T, E>): Result<T, F> {
+    return foldResult<Result<T, F>>(
+      result,
+      () => result as Ok<T>,
+      (error) => err(fn(error)),
+      mapErr,
+    );
+  };
+}
+
+/**
+ * Chains an operation that can fail onto a success; failures pass through unchanged.
+ *
+ * @param fn - Receives the success value and returns the next `Result`
+ * @returns A function from `Result<T, E>` to `Result<U, E | F>`
+ * @throws {InvalidUnionError} If the input is not a `Result`
+ *
+ * @example
+ * ```ts
+ * pipe(readConfig(), Result.flatMap((config) => parsePort(config.port)));
+ * ```
+ */
+function flatMap<T, U, F>(fn: (value: T) => Result<U, F>) {
+  return function flatMap<E>(result: Result<T, E>): Result<U, E | F> {
+    return foldResult<Result<U, E | F>>(
+      result,
+      fn,
+      () => result as Err<E>,
+      flatMap,
+    );
+  };
+}
+
+/**
+ * Unwraps the value of a success, or returns `fallback` for a failure.
+ *
+ * @returns A function from `Result<T, E>` to `T | U`
+ * @throws {InvalidUnionError} If the input is not a `Result`
+ */
+function unwrapOr<U>(fallback: U) {
+  return function unwrapOr<T>(result: Result<T, unknown>): T | U {
+    return foldResult(
+      result,
+      (value) => value,
+      () => fallback,
+      unwrapOr,
+    );
+  };
+}
+
+/**
+ * Combines results into a result of all their values, in order. Returns the first failure
+ * if there is one.
+ *
+ * @throws {InvalidUnionError} If an element is not a `Result`
+ *
+ * @example
+ * ```ts
+ * Result.all([Result.ok(1), Result.ok('a')]); // { type: 'ok', value: [1, 'a'] }
+ * ```
+ */
+function all<const Results extends readonly Result<unknown, unknown>[]>(
+  results: Results,
+): Result<
+  { -readonly [K in keyof Results]: OkValue<Results[K]> },
+  ErrValue<Results[number]>
+> {
+  const values: unknown[] = [];
+  for (const result of results) {
+    const succeeded = foldResult(
+      result,
+      (value) => values.push(value) > 0,
+      () => false,
+      all,
+    );
+    if (!succeeded) return result as Err<ErrValue<Results[number]>>;
+  }
+  return ok(values as any);
+}
+
+/**
+ * Returns the first success among `results`, or a failure with all their errors, in order.
+ *
+ * @throws {InvalidUnionError} If an element is not a `Result`
+ */
+function any<const Results extends readonly Result<unknown, unknown>[]>(
+  results: Results,
+): Result<
+  OkValue<Results[number]>,
+  { -readonly [K in keyof Results]: ErrValue<Results[K]> }
+> {
+  const errors: unknown[] = [];
+  for (const result of results) {
+    const failed = foldResult(
+      result,
+      () => false,
+      (error) => errors.push(error) > 0,
+      any,
+    );
+    if (!failed) return result as Ok<OkValue<Results[number]>>;
+  }
+  return err(errors as any);
+}
+
+/**
+ * Wraps a value that may be `null` or `undefined`: a success for any other value, or a
+ * failure with `error`.
+ *
+ * @example
+ * ```ts
+ * pipe(user.email, Result.fromNullable('missing email'));
+ * ```
+ */
+function fromNullable<E>(error: E) {
+  return <T>(value: T): Result<NonNullable<T>, E> =>
+    value === null || value === undefined ? err(error) : ok(value);
+}
+
+/**
+ * Settles a promise into a `Result` — a success with its value, or a failure with the
+ * rejection reason, optionally mapped. The returned promise never rejects unless
+ * `mapError` throws.
+ *
+ * @example
+ * ```ts
+ * const user = await Result.fromPromise(fetchUser(id), (cause) => new ApiError(cause));
+ * ```
+ */
+function fromPromise<T, E = unknown>(
+  promise: PromiseLike<T>,
+  mapError: (cause: unknown) => E = (cause) => cause as E,
+): Promise<Result<T, E>> {
+  return Promise.resolve(promise).then(ok, (cause) => err(mapError(cause)));
+}
+
+/**
+ * Calls `fn`, returning a success with its return value, or a failure with what it threw,
+ * optionally mapped.
+ *
+ * @example
+ * ```ts
+ * const config = Result.tryCatch(() => JSON.parse(text) as Config);
+ * ```
+ */
+function tryCatch<T, E = unknown>(
+  fn: () => T,
+  mapError: (cause: unknown) => E = (cause) => cause as E,
+): Result<T, E> {
+  try {
+    return ok(fn());
+  } catch (cause) {
+    return err(mapError(cause));
+  }
+}
+
+/**
+ * Constructors and pipe-friendly combinators for {@link Result}. Combinators take their
+ * function first and return a function of the result, so they compose in `pipe` utilities.
+ *
+ * @example
+ * ```ts
+ * const port = pipe(
+ *   Result.tryCatch(() => JSON.parse(text)),
+ *   Result.flatMap((config) => Result.fromNullable('no port')(config.port)),
+ *   Result.map(Number),
+ *   Result.unwrapOr(8080),
+ * );
+ *
+ * match(Result.all([a, b]))({
+ *   ok: ({ value: [x, y] }) => x + y,
+ *   err: ({ error }) => report(error),
+ * });
+ * ```
+ */
+export const Result = {
+  ok,
+  err,
+  map: mapOk,
+  mapErr,
+  flatMap,
+  unwrapOr,
+  all,
+  any,
+  fromNullable,
+  fromPromise,
+  tryCatch,
+};
@@ -0,0 +1,420 @@
+import { errorDetails, ParseError } from './errors';
+import { clearStackTrace, isRecord, typeName } from './helpers';
+import { isUnion, match } from './unions';
+import {
+  DiscriminantLiteral,
+  ExhaustiveList,
+  Model,
+  Payload,
+  SampleUnion,
+  TakeDiscriminant,
+} from './types';
+
+/**
+ * A runtime description of a value's shape. Schemas are plain data — a discriminated
+ * union on `type` — so they can be inspected as well as used for validation.
+ * The `_output` property only exists at the type level and carries the validated type.
+ *
+ * @typeParam T - The type a value has once it passes validation
+ */
+export type Schema<T = unknown> = SchemaNode & { readonly _output?: T };
+
+type SchemaNode =
+  | Model<'string'>
+  | Model<'number'>
+  | Model<'boolean'>
+  | Model<'literal', { value: string | number | boolean | null }>
+  | Model<'array', { element: Schema }>
+  | Model<'object', { shape: Record<string, Schema> }>
+  | Model<'optional', { inner: Schema }>;
+
+/**
+ * Object schema produced by {@link object}. Union payload schemas must be object schemas.
+ */
+export type ObjectSchema<T = unknown> = Model<
+  'object',
+  { shape: Record<string, Schema> }
+> & { readonly _output?: T };
+
+/**
+ * Extracts the validated type from a {@link Schema}.
+ *
+ * @example
+ * ```ts
+ * const point = object({ x: number(), y: number() });
+ * type Point = Infer<typeof point>; // { x: number; y: number }
+ * ```
+ */
+export type Infer<S> = S extends { readonly _output?: infer T } ? T : never;
+
+type OptionalKeys<Shape extends Record<string, Schema>> = {
+  [K in keyof Shape]: Shape[K] extends { type: 'optional' } ? K : never;
+}[keyof Shape];
+
+type InferShape<Shape extends Record<string, Schema>> = {
+  [K in Exclude<keyof Shape, OptionalKeys<Shape>>]: Infer<Shape[K]>;
+} & {
+  [K in OptionalKeys<Shape>]?: Infer<Shape[K]>;
+};
+
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+/** A single validation failure, located by its path from the root of the input. */
+export type Issue = { path: (string | number)[]; message: string };
+
+/**
+ * Result of {@link UnionSchema.safeParse} — itself a discriminated union on `type`,
+ * so it can be handled with `match`.
+ */
+export type ParseResult<T> =
+  Model<'success', { data: T }> | Model<'failure', { issues: Issue[] }>;
+
+/** Options accepted by {@link unionSchema}. */
+export type UnionSchemaOptions<Value = DiscriminantLiteral> = {
+  /** Reject object fields that are not declared in the schema. Defaults to `false`. */
+  strict?: boolean;
+  /**
+   * Every discriminant value, once each. Payload keys are always strings, so this is
+   * required when a value is a number or a boolean. Defaults to the payload keys.
+   */
+  variants?: ExhaustiveList<Value>;
+};
+
+/** `variants` is optional when every discriminant value is a string, and required otherwise. */
+type OptionsFor<Value> = [Exclude<Value, string>] extends [never]
+  ? [options?: UnionSchemaOptions<Value>]
+  : [options: UnionSchemaOptions<Value> & { variants: ExhaustiveList<Value> }];
+
+/**
+ * Validator for a discriminated union, as returned by {@link unionSchema}.
+ *
+ * @typeParam T - The discriminated union type
+ * @typeParam Discriminant - The discriminant key of the union
+ */
+export type UnionSchema<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends string | number | symbol,
+> = {
+  /** The discriminant key shared by every variant. */
+  readonly discriminant: Discriminant;
+  /** Every discriminant value of the union, in declaration order. */
+  readonly variants: ReadonlyArray<T[Discriminant]>;
+  /** The payload schema of every variant. */
+  readonly payloads: PayloadSchemas<T, Discriminant>;
+  /** Whether extra object fields are rejected. */
+  readonly strict: boolean;
+  /** Validates `input`, returning it typed as `T` or throwing a {@link ParseError}. */
+  parse(input: unknown): T;
+  /** Validates `input` without throwing. */
+  safeParse(input: unknown): ParseResult<T>;
+};
+
+/**
+ * One object schema per variant, keyed by discriminant value. Each schema describes
+ * the variant's payload — everything except the discriminant key.
+ */
+export type PayloadSchemas<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends string | number | symbol,
+> = {
+  [K in T[Discriminant]]: ObjectSchema<Payload<T, K, Discriminant>>;
+};
+
+/** Accepts any string. */
+export function string(): Schema<string> {
+  return { type: 'string' };
+}
+
+/** Accepts any number except `NaN`. */
+export function number(): Schema<number> {
+  return { type: 'number' };
+}
+
+/** Accepts `true` or `false`. */
+export function boolean(): Schema<boolean> {
+  return { type: 'boolean' };
+}
+
+/**
+ * Accepts exactly `value`.
+ *
+ * @example
+ * ```ts
+ * const unit = literal('px'); // Schema<'px'>
+ * ```
+ */
+export function literal<const V extends string | number | boolean | null>(
+  value: V,
+): Schema<V> {
+  return { type: 'literal', value };
+}
+
+/** Accepts an array whose every element passes `element`. */
+export function array<S extends Schema<any>>(element: S): Schema<Infer<S>[]> {
+  return { type: 'array', element };
+}
+
+/**
+ * Accepts a non-null, non-array object whose fields pass the matching schemas.
+ * Wrap a field schema in {@link optional} to make the field optional.
+ *
+ * @example
+ * ```ts
+ * const user = object({ name: string(), age: optional(number()) });
+ * // Schema<{ name: string; age?: number }>
+ * ```
+ */
+export function object<Shape extends Record<string, Schema<any>>>(
+  shape: Shape,
+): ObjectSchema<Flatten<InferShape<Shape>>> {
+  return { type: 'object', shape };
+}
+
+/** Accepts `undefined` (or a missing field) in addition to whatever `inner` accepts. */
+export function optional<S extends Schema<any>>(
+  inner: S,
+): Model<'optional', { inner: S }> & {
+  readonly _output?: Infer<S> | undefined;
+} {
+  return { type: 'optional', inner };
+}
+
+function check(
+  schema: Schema,
+  input: unknown,
+  path: (string | number)[],
+  issues: Issue[],
+  strict: boolean,
+  ignore?: string | number | symbol,
+): void {
+  const expect = (expected: string, ok: boolean) => {
+    if (!ok)
+      issues.push({
+        path,
+        message: `Expected ${expected}, received ${typeName(input)}`,
+      });
+  };
+
+  match(schema as SchemaNode)({
+    string: () => expect('string', typeof input === 'string'),
+    number: () =>
+      expect('number', typeof input === 'number' && !Number.isNaN(input)),
+    boolean: () => expect('boolean', typeof input === 'boolean'),
+    literal: ({ value }) =>
+      expect(JSON.stringify(value), Object.is(input, value)),
+    optional: ({ inner }) => {
+      if (input !== undefined) check(inner, input, path, issues, strict);
+    },
+    array: ({ element }) => {
+      if (!Array.isArray(input)) return expect('array', false);
+      input.forEach((item, i) =>
+        check(element, item, [...path, i], issues, strict),
+      );
+    },
+    object: ({ shape }) => {
+      if (!isRecord(input)) return expect('object', false);
+      for (const key of Object.keys(shape)) {
+        check(shape[key], input[key], [...path, key], issues, strict);
+      }
+      if (!strict) return;
+      for (const key of Object.keys(input)) {
+        if (key !== ignore && !(key in shape))
+          issues.push({ path: [...path, key], message: 'Unexpected field' });
+      }
+    },
+  });
+}
+
+/**
+ * Builds a validator for a discriminated union from one payload schema per variant.
+ * Use it at system boundaries so that `match` and `mapAll` only ever see well-formed variants.
+ *
+ * @param discriminant - The property used to tell variants apart (e.g. `'type'` or `'kind'`)
+ * @param payloads - An object schema for every variant, keyed by discriminant value
+ * @param options - `strict: true` rejects fields that no schema declares, and `variants`
+ *   lists the discriminant values (required when some are not strings)
+ * @returns A {@link UnionSchema} with `parse` and `safeParse`
+ *
+ * @example
+ * ```ts
+ * const ShapeSchema = unionSchema<Shape>('type', {
+ *   circle: object({ radius: number() }),
+ *   rectangle: object({ width: number(), height: number() }),
+ * });
+ *
+ * const shape = ShapeSchema.parse(await res.json()); // Shape, or throws ParseError
+ *
+ * const result = ShapeSchema.safeParse({ type: 'circle' });
+ * // { type: 'failure', issues: [{ path: ['radius'], message: 'Expected number, received undefined' }] }
+ * ```
+ */
+export function unionSchema<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends TakeDiscriminant<T> = TakeDiscriminant<T>,
+>(
+  discriminant: Discriminant,
+  payloads: PayloadSchemas<T, Discriminant>,
+  ...[options = {}]: OptionsFor<T[Discriminant]>
+): UnionSchema<T, Discriminant> {
+  const variants: ReadonlyArray<T[Discriminant]> = Object.freeze(
+    options.variants
+      ? [...(options.variants as any)]
+      : (Object.keys(payloads) as T[Discriminant][]),
+  );
+  const strict = options.strict ?? false;
+
+  function safeParse(input: unknown): ParseResult<T> {
+    const issues: Issue[] = [];
+
+    if (!isRecord(input)) {
+      expectVariant(input, []);
+    } else {
+      const value = input[discriminant as string] as T[Discriminant];
+      if (!isUnion(input, discriminant) || !variants.includes(value)) {
+        expectVariant(value, [discriminant as string]);
+      } else {
+        // Payload keys are handler keys: `404` is keyed by `'404'` and `true` by `'true'`
+        const schema = (payloads as Record<PropertyKey, Schema>)[
+          value as PropertyKey
+        ];
+        check(schema, input, [], issues, strict, discriminant);
+      }
+    }
+
+    return issues.length
+      ? { type: 'failure', issues }
+      : { type: 'success', data: input as T };
+
+    function expectVariant(value: unknown, path: (string | number)[]) {
+      issues.push({
+        path,
+        message: path.length
+          ? `Expected one of ${variants
+              .map((v) => (typeof v === 'string' ? `'${v}'` : String(v)))
+              .join(' | ')}, received ${
+              typeof value === 'string' ? `'${value}'` : typeName(value)
+            }`
+          : `Expected object, received ${typeName(value)}`,
+      });
+    }
+  }
+
+  function parse(input: unknown): T {
+    const result = safeParse(input);
+    if (result.type === 'failure')
+      throw clearStackTrace(
+        new ParseError({
+          ...errorDetails(input, discriminant),
+          issues: result.issues,
+        }),
+        parse,
+      );
+    return result.data;
+  }
+
+  return { discriminant, variants, payloads, strict, parse, safeParse };
+}
+
+/**
+ * A JSON Schema (draft 2020-12) document, as produced by {@link toJSONSchema}. Only the
+ * keywords dismatch emits are typed.
+ */
+export type JSONSchema = {
+  $schema?: string;
+  $defs?: Record<string, JSONSchema>;
+  $ref?: string;
+  type?: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  const?: string | number | boolean | null;
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  oneOf?: JSONSchema[];
+  /** OpenAPI discriminator: the discriminant key and the `$ref` of every variant. */
+  discriminator?: { propertyName: string; mapping: Record<string, string> };
+};
+
+function toJSON(schema: Schema, strict: boolean): JSONSchema {
+  return match(schema as SchemaNode)<JSONSchema>({
+    string: () => ({ type: 'string' }),
+    number: () => ({ type: 'number' }),
+    boolean: () => ({ type: 'boolean' }),
+    literal: ({ value }) => ({ const: value }),
+    optional: ({ inner }) => toJSON(inner, strict),
+    array: ({ element }) => ({ type: 'array', items: toJSON(element, strict) }),
+    object: ({ shape }) => objectToJSON(shape, strict, {}),
+  });
+}
+
+function objectToJSON(
+  shape: Record<string, Schema>,
+  strict: boolean,
+  properties: Record<string, JSONSchema>,
+  required: string[] = [],
+): JSONSchema {
+  for (const key of Object.keys(shape)) {
+    properties[key] = toJSON(shape[key], strict);
+    if (shape[key].type !== 'optional') required.push(key);
+  }
+  return {
+    type: 'object',
+    properties,
+    required,
+    ...(strict && { additionalProperties: false }),
+  };
+}
+
+/**
+ * Exports a {@link UnionSchema} as JSON Schema: a `oneOf` over one definition per variant,
+ * each pinning the discriminant with `const`, plus an OpenAPI `discriminator` mapping every
+ * discriminant value to its definition. Variants, fields and `required` lists keep their
+ * declaration order, so the output is stable enough to commit and diff.
+ *
+ * @param union - The union schema to export
+ * @returns A JSON Schema document; strict union schemas forbid additional properties
+ *
+ * @example
+ * ```ts
+ * toJSONSchema(ShapeSchema);
+ * // {
+ * //   $schema: 'https://json-schema.org/draft/2020-12/schema',
+ * //   $defs: {
+ * //     circle: {
+ * //       type: 'object',
+ * //       properties: { type: { const: 'circle' }, radius: { type: 'number' } },
+ * //       required: ['type', 'radius'],
+ * //     },
+ * //     …
+ * //   },
+ * //   oneOf: [{ $ref: '#/$defs/circle' }, …],
+ * //   discriminator: { propertyName: 'type', mapping: { circle: '#/$defs/circle', … } },
+ * // }
+ * ```
+ */
+export function toJSONSchema<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends string | number | symbol,
+>(union: UnionSchema<T, Discriminant>): JSONSchema {
+  const propertyName = String(union.discriminant);
+  const defs: Record<string, JSONSchema> = {};
+  const mapping: Record<string, string> = {};
+
+  for (const variant of union.variants) {
+    const name = String(variant);
+    const payload = (union.payloads as Record<string, ObjectSchema>)[name];
+    defs[name] = objectToJSON(
+      payload.shape,
+      union.strict,
+      { [propertyName]: { const: variant as string | number | boolean } },
+      [propertyName],
+    );
+    mapping[name] = `#/$defs/${name}`;
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $defs: defs,
+    oneOf: Object.values(mapping).map(($ref) => ({ $ref })),
+    discriminator: { propertyName, mapping },
+  };
+}
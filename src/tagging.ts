@@ -0,0 +1,116 @@
+import { guard, isUnion } from './unions';
+import { clearStackTrace, isRecord } from './helpers';
+import { errorDetails, InvalidUnionError } from './errors';
+import {
+  ExhaustiveList,
+  SampleUnion,
+  TakeDiscriminant,
+  Tagging,
+} from './types';
+
+type Key = string | number | symbol;
+
+/** `variants` is optional when every discriminant value is a string, and required otherwise. */
+type VariantsFor<Value> = [Exclude<Value, string>] extends [never]
+  ? [variants?: ExhaustiveList<Value>]
+  : [variants: ExhaustiveList<Value>];
+
+function split(value: Record<Key, unknown>, discriminant: Key) {
+  const { [discriminant]: tag, ...rest } = value;
+  return [tag, rest] as const;
+}
+
+function invalid(input: unknown, discriminant: Key, caller: Function) {
+  return clearStackTrace(
+    new InvalidUnionError(errorDetails(input, discriminant)),
+    caller,
+  );
+}
+
+/**
+ * Creates codecs between a union and the tagged-union representations other services send:
+ * adjacently tagged, externally tagged, or internally tagged under another key. Decode once
+ * at the boundary, then `match` on the result.
+ *
+ * `encode` throws `InvalidUnionError` for a value that is not a valid union, and `decode` for
+ * input that is not in the codec's representation. Decoding does not check variant names, and
+ * the discriminant always wins over a payload field of the same name.
+ *
+ * Externally tagged keys are strings, so unions with number or boolean discriminants list their
+ * values: `tagging<Response>('code', [200, 404])`. Keys decode to the listed value they name.
+ *
+ * @param discriminant - The discriminant key of the union
+ * @param variants - Every discriminant value, required when some are not strings
+ * @returns A {@link Tagging} with an `adjacent`, `external` and `internal` codec factory
+ *
+ * @example
+ * ```ts
+ * const shapes = tagging<Shape>('type');
+ *
+ * shapes.adjacent('t', 'c').decode({ t: 'circle', c: { radius: 1 } }); // { type: 'circle', radius: 1 }
+ * shapes.external().encode({ type: 'circle', radius: 1 });             // { circle: { radius: 1 } }
+ * shapes.internal('kind').decode({ kind: 'circle', radius: 1 });       // { type: 'circle', radius: 1 }
+ * ```
+ */
+export function tagging<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends TakeDiscriminant<T> = TakeDiscriminant<T>,
+>(
+  discriminant: Discriminant,
+  ...[variants]: VariantsFor<T[Discriminant]>
+): Tagging<T, Discriminant> {
+  // Externally tagged keys name their variant: `'404'` is `404` when `404` is listed
+  const byKey = new Map<string, unknown>(
+    ((variants ?? []) as readonly T[Discriminant][]).map((variant) => [
+      String(variant),
+      variant,
+    ]),
+  );
+  const fromKey = (key: string) => (byKey.has(key) ? byKey.get(key) : key);
+
+  const encodeWith = (
+    wire: (type: unknown, rest: Record<Key, unknown>) => unknown,
+  ) =>
+    function encode(value: T): any {
+      return guard(value, discriminant, encode, () => {
+        const [type, rest] = split(value, discriminant);
+        return wire(type, rest);
+      });
+    };
+
+  return {
+    adjacent: (tag = 't' as any, content = 'c' as any) => ({
+      encode: encodeWith((type, rest) => ({ [tag]: type, [content]: rest })),
+      decode: function decode(input) {
+        if (!isUnion(input, tag)) throw invalid(input, tag, decode);
+        const data = (input as Record<Key, unknown>)[content] ?? {};
+        if (!isRecord(data)) throw invalid(input, tag, decode);
+        return { ...data, [discriminant]: input[tag] } as T;
+      },
+    }),
+
+    external: () => ({
+      encode: encodeWith((type, rest) => ({ [type as Key]: rest })),
+      decode: function decode(input: unknown) {
+        if (typeof input === 'string')
+          return { [discriminant]: fromKey(input) } as T;
+        const keys = isRecord(input) ? Object.keys(input) : [];
+        if (keys.length !== 1) throw invalid(input, discriminant, decode);
+
+        const data = (input as Record<Key, unknown>)[keys[0]] ?? {};
+        if (!isRecord(data)) throw invalid(input, discriminant, decode);
+        return { ...data, [discriminant]: fromKey(keys[0]) } as T;
+      },
+    }),
+
+    internal: (key) => ({
+      encode: encodeWith((type, rest) => ({ [key]: type, ...rest })),
+      decode: function decode(input) {
+        return guard(input, key, decode, () => {
+          const [type, rest] = split(input, key);
+          return { ...rest, [discriminant]: type } as T;
+        });
+      },
+    }),
+  };
+}
@@ -0,0 +1,96 @@
+import { errorDetails, UnhandledVariantError } from './errors';
+import { clearStackTrace, locate } from './helpers';
+import { guard } from './unions';
+import {
+  DiscriminantKeys,
+  ExhaustiveMatcherN,
+  MatcherN,
+  MatcherNResult,
+} from './types';
+
+const SEPARATOR = ':';
+const WILDCARD = '_';
+
+/**
+ * Every handler key that covers `values`, most specific first: keys with fewer wildcards win,
+ * and among equally specific keys the one that is concrete further left wins.
+ */
+function candidates(values: string[]): string[] {
+  let keys: string[][] = [[]];
+  for (const value of values) {
+    keys = keys.flatMap((key) => [
+      [...key, value],
+      [...key, WILDCARD],
+    ]);
+  }
+  const wildcards = (key: string[]) =>
+    key.filter((part) => part === WILDCARD).length;
+  return keys
+    .sort((a, b) => wildcards(a) - wildcards(b))
+    .map((key) => key.join(SEPARATOR));
+}
+
+/**
+ * Exhaustive pattern matching on a tuple of discriminated unions — for example a state and an
+ * action. Handler keys name one variant per element, joined with `:`; `_` stands for any variant
+ * in that position. TypeScript errors until every combination is covered. Number and boolean
+ * discriminants appear in keys as written (`'404:true'`); symbol discriminants are not supported.
+ *
+ * When several keys cover the same combination, the most specific one wins: fewer wildcards
+ * first, then the key that is concrete further left.
+ *
+ * @param inputs - The discriminated union values to match against
+ * @param discriminants - One discriminant key (or path) per element. Defaults to `'type'` for each.
+ * @returns A curried function that accepts a handler map and returns the matched handler's result
+ * @throws {InvalidUnionError} If an element is not a valid discriminated union
+ * @throws {UnhandledVariantError} If no handler covers the combination
+ *
+ * @example
+ * ```ts
+ * const next = matchN([state, action], ['status', 'type'])({
+ *   'idle:fetch': () => ({ status: 'loading' }),
+ *   'loading:resolve': (_, { data }) => ({ status: 'success', data }),
+ *   'loading:reject': (_, { error }) => ({ status: 'error', error }),
+ *   '_:reset': () => ({ status: 'idle' }),
+ *   '_:_': (state) => state,
+ * });
+ * ```
+ */
+export function matchN<
+  const T extends readonly unknown[],
+  const Discriminants extends DiscriminantKeys<T> = {
+    readonly [I in keyof T]: 'type';
+  },
+>(
+  inputs: T,
+  discriminants?: Discriminants,
+): <H extends MatcherN<T, Discriminants>>(
+  handlers: ExhaustiveMatcherN<T, Discriminants, H>,
+) => MatcherNResult<H> {
+  const keys = inputs.map((_, i) => discriminants?.[i] ?? 'type');
+  inputs.forEach((input, i) => guard(input, keys[i], matchN, () => input));
+
+  return function matchCombination(handlers) {
+    const values = inputs.map((input, i) => {
+      const [holder, key] = locate(input, keys[i]);
+      return String(holder[key]);
+    });
+    const fn = candidates(values)
+      .map((key) => (handlers as Record<string, unknown>)[key])
+      .find((handler) => typeof handler === 'function') as
+      ((...inputs: unknown[]) => any) | undefined;
+    if (fn) return fn(...inputs);
+
+    throw clearStackTrace(
+      new UnhandledVariantError({
+        discriminant: keys.map(String).join(SEPARATOR),
+        received: values.join(SEPARATOR),
+        preview: `[${inputs
+          .map((input, i) => errorDetails(input, keys[i]).preview)
+          .join(', ')}]`,
+        handlers: Object.keys(handlers),
+      }),
+      matchCombination,
+    );
+  };
+}
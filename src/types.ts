@@ -13,6 +13,22 @@ export type SampleUnion<Discriminant extends string | number | symbol> = {
   [K in Discriminant]: any;
 };
 
+/**
+ * A value a discriminant property may hold at runtime.
+ */
+export type DiscriminantLiteral = string | number | boolean | symbol;
+
+/**
+ * The handler key for a discriminant value. Boolean values can't be object keys, so
+ * `true` and `false` map to the `'true'` and `'false'` keys; other values are used as-is.
+ *
+ * @example
+ * ```ts
+ * type K = HandlerKey<true | 404 | 'ok'>; // 'true' | 404 | 'ok'
+ * ```
+ */
+export type HandlerKey<Value> = Value extends boolean ? `${Value}` : Value;
+
 /**
  * Constructs a single variant of a discriminated union.
  * Combines a literal `type` discriminant with additional data fields.
@@ -29,10 +45,12 @@ export type SampleUnion<Discriminant extends string | number | symbol> = {
  * // Equivalent to: { type: 'rectangle'; width: number; height: number }
  *
  * type Shape = Circle | Rectangle;
+ *
+ * type Response = Model<200, { body: string }, 'status'> | Model<404, {}, 'status'>;
  * ```
  */
 export type Model<
-  DiscriminantValue extends string,
+  DiscriminantValue extends DiscriminantLiteral,
   Data = {},
   Discriminant extends string | number | symbol = 'type',
 > = {
@@ -62,7 +80,11 @@ export type Matcher<
   Result,
   Discriminant extends string | number | symbol,
 > = {
-  [K in T[Discriminant]]: T extends Model<K, infer Data, Discriminant>
+  [K in T[Discriminant] as HandlerKey<K>]: T extends Model<
+    K,
+    infer Data,
+    Discriminant
+  >
     ? (input: Data) => Result
     : never;
 };
@@ -112,7 +134,11 @@ export type Mapper<
   T extends SampleUnion<Discriminant>,
   Discriminant extends string | number | symbol,
 > = {
-  [K in T[Discriminant]]?: T extends Model<K, infer Data, Discriminant>
+  [K in T[Discriminant] as HandlerKey<K>]?: T extends Model<
+    K,
+    infer Data,
+    Discriminant
+  >
     ? (input: Data) => Data
     : never;
 };
@@ -138,15 +164,1186 @@ export type MapperAll<
   T extends SampleUnion<Discriminant>,
   Discriminant extends string | number | symbol,
 > = {
-  [K in T[Discriminant]]: T extends Model<K, infer Data, Discriminant>
+  [K in T[Discriminant] as HandlerKey<K>]: T extends Model<
+    K,
+    infer Data,
+    Discriminant
+  >
     ? (input: Data) => Data
     : never;
 };
 
+/**
+ * Partial payload transformation map for discriminated unions.
+ * Each handler is optional, receives a variant's payload — the variant without its
+ * discriminant — and returns a new payload of the same type. The discriminant is put back.
+ *
+ * @typeParam T - The discriminated union type
+ *
+ * @example
+ * ```ts
+ * const doubleCircle: DataMapper<Shape, 'type'> = {
+ *   circle: ({ radius }) => ({ radius: radius * 2 }),
+ * };
+ * ```
+ */
+export type DataMapper<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends string | number | symbol,
+> = {
+  [K in T[Discriminant] as HandlerKey<K>]?: (
+    payload: Payload<T, K, Discriminant>,
+  ) => Payload<T, K, Discriminant>;
+};
+
+/**
+ * Full payload transformation map. Like {@link DataMapper}, but **all** variant handlers are
+ * required.
+ */
+export type DataMapperAll<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends string | number | symbol,
+> = Required<DataMapper<T, Discriminant>>;
+
 export type TakeDiscriminant<T, K extends keyof T = keyof T> = K extends keyof T
-  ? T[K] extends string | number | symbol
+  ? T[K] extends DiscriminantLiteral
     ? string extends T[K]
       ? never
-      : K // excludes wide types
+      : number extends T[K]
+        ? never
+        : symbol extends T[K]
+          ? never
+          : K // excludes wide types
+    : never
+  : never;
+
+type UnionToIntersection<U> = (U extends any ? (x: U) => void : never) extends (
+  x: infer I,
+) => void
+  ? I
+  : never;
+
+type IsUnit<V> = [V] extends [never]
+  ? false
+  : [V] extends [UnionToIntersection<V>]
+    ? true
+    : false;
+
+/** `true` if some variant of `T` holds more than one value at `K`, e.g. a `boolean` flag. */
+type WideIn<T, K extends keyof T> = T extends any
+  ? IsUnit<T[K]> extends true
+    ? never
+    : true
+  : never;
+
+/** `true` if some variant of `T` shares its value at `K` with another variant. */
+type SharedIn<T, K extends keyof T, All = T> = T extends any
+  ? T[K] extends Exclude<All, T>[K & keyof Exclude<All, T>]
+    ? true
+    : never
+  : never;
+
+/**
+ * The keys that could be the discriminant of `T`: of the {@link TakeDiscriminant} keys, those
+ * where every variant holds a single literal that no other variant holds.
+ *
+ * @example
+ * ```ts
+ * type C = DiscriminantCandidates<Model<'a', { flag: boolean }> | Model<'b', { flag: boolean }>>;
+ * // 'type' — `flag` holds two values in each variant
+ * ```
+ */
+export type DiscriminantCandidates<
+  T,
+  K extends TakeDiscriminant<T> = TakeDiscriminant<T>,
+> = K extends any
+  ? [WideIn<T, K> | SharedIn<T, K>] extends [never]
+    ? K
     : never
   : never;
+
+/**
+ * The discriminant `match` and friends use when none is passed: `'type'`. For a union keyed
+ * elsewhere it is an error message naming the {@link DiscriminantCandidates}, so the call
+ * fails to compile until the key is passed — at runtime, the default is always `'type'`.
+ * Other keys are not inferred: a single value can't tell its discriminant apart from another
+ * field that happens to hold a variant name.
+ *
+ * @example
+ * ```ts
+ * type D = DefaultDiscriminant<Model<'dog', {}, 'kind'> | Model<'cat', {}, 'kind'>>;
+ * // 'Not keyed by type, pass the discriminant: kind'
+ * ```
+ */
+export type DefaultDiscriminant<T> = 'type' extends keyof T
+  ? 'type'
+  : [DiscriminantCandidates<T>] extends [never]
+    ? 'type'
+    : `Not keyed by type, pass the discriminant: ${Extract<
+        DiscriminantCandidates<T>,
+        string | number
+      >}`;
+
+/**
+ * Extracts a single variant from a discriminated union by its discriminant value.
+ *
+ * @typeParam T - The discriminated union type
+ * @typeParam K - The discriminant value of the variant to extract
+ * @typeParam Discriminant - The discriminant key. Defaults to `'type'`.
+ *
+ * @example
+ * ```ts
+ * type Circle = Variant<Shape, 'circle'>;
+ * // { type: 'circle'; radius: number }
+ * ```
+ */
+export type Variant<
+  T,
+  K,
+  Discriminant extends string | number | symbol = 'type',
+> = Extract<T, { [P in Discriminant]: K }>;
+
+/**
+ * The data carried by a single variant — the variant without its discriminant key.
+ *
+ * @example
+ * ```ts
+ * type CirclePayload = Payload<Shape, 'circle'>;
+ * // { radius: number }
+ * ```
+ */
+export type Payload<
+  T,
+  K,
+  Discriminant extends string | number | symbol = 'type',
+> = Omit<Variant<T, K, Discriminant>, Discriminant>;
+
+type LastOf<U> =
+  UnionToIntersection<U extends any ? () => U : never> extends () => infer L
+    ? L
+    : never;
+
+/** A tuple of `Element`, one per member of `U`. */
+type OnePer<U, Element, Result extends unknown[] = []> = [U] extends [never]
+  ? Result
+  : OnePer<Exclude<U, LastOf<U>>, Element, [Element, ...Result]>;
+
+/**
+ * A list with one element per member of `All`, so a list that leaves a member out does not
+ * compile. Listing a member twice is only caught at runtime.
+ *
+ * @example
+ * ```ts
+ * const names: ExhaustiveList<'circle' | 'rect'> = ['circle', 'rect'];
+ * // ['circle'] — Source has 1 element(s) but target requires 2
+ * ```
+ */
+export type ExhaustiveList<All> = Readonly<OnePer<All, All>>;
+
+/**
+ * Typed constructor functions for every variant of a discriminated union.
+ * Each constructor takes the variant's payload and returns the full variant with
+ * the discriminant filled in. Variants without data accept an optional payload.
+ *
+ * @example
+ * ```ts
+ * const ctors: Constructors<Shape, 'type'> = ...;
+ * ctors.circle({ radius: 5 }); // { type: 'circle', radius: 5 }
+ * ```
+ */
+export type Constructors<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends string | number | symbol,
+> = {
+  [K in T[Discriminant]]: {} extends Payload<T, K, Discriminant>
+    ? (payload?: Payload<T, K, Discriminant>) => Variant<T, K, Discriminant>
+    : (payload: Payload<T, K, Discriminant>) => Variant<T, K, Discriminant>;
+};
+
+/**
+ * A discriminated union described at runtime, as returned by `defineUnion`.
+ * Combines a typed constructor per variant with the variant list and
+ * `is`/`match`/`map` helpers pre-bound to the union's discriminant.
+ *
+ * @typeParam T - The discriminated union type
+ * @typeParam Discriminant - The discriminant key of the union
+ */
+export type UnionDefinition<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends string | number | symbol,
+> = Constructors<T, Discriminant> & {
+  /** The discriminant key shared by every variant. */
+  readonly discriminant: Discriminant;
+  /** Every discriminant value of the union, in declaration order. */
+  readonly variants: ReadonlyArray<T[Discriminant]>;
+  /** Narrows `input` to the variant whose discriminant equals `type`. */
+  is<K extends T[Discriminant]>(
+    input: T,
+    type: K,
+  ): input is Variant<T, K, Discriminant>;
+  match(input: T): <U>(matcher: Matcher<T, U, Discriminant>) => U;
+  matchWithDefault(
+    input: T,
+  ): <U>(matcher: MatcherWithDefault<T, U, Discriminant>) => U;
+  map(input: T): (mapper: Mapper<T, Discriminant>) => T;
+  mapAll(input: T): (mapper: MapperAll<T, Discriminant>) => T;
+};
+
+/**
+ * Exhaustive async handler map. Like {@link Matcher}, but every handler also receives an
+ * `AbortSignal` and may return a value or a Promise of one.
+ *
+ * @example
+ * ```ts
+ * type Job = Model<'queued', { jobId: string }> | Model<'done', { result: string }>;
+ *
+ * const load: AsyncMatcher<Job, 'type'> = {
+ *   queued: ({ jobId }, signal) => fetch(`/jobs/${jobId}`, { signal }),
+ *   done: ({ result }) => result,
+ * };
+ * ```
+ */
+export type AsyncMatcher<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends string | number | symbol,
+> = {
+  [K in T[Discriminant] as HandlerKey<K>]: T extends Model<
+    K,
+    infer Data,
+    Discriminant
+  >
+    ? (input: Data, signal: AbortSignalLike) => unknown
+    : never;
+};
+
+/**
+ * Partial async transformation map. Like {@link Mapper}, but every handler also receives an
+ * `AbortSignal` and may return the new variant or a Promise of it.
+ */
+export type AsyncMapper<
+  T extends SampleUnion<Discriminant>,
+  Discriminant extends string | number | symbol,
+> = {
+  [K in T[Discriminant] as HandlerKey<K>]?: T extends Model<
+    K,
+    infer Data,
+    Discriminant
+  >
+    ? (input: Data, signal: AbortSignalLike) => Data | PromiseLike<Data>
+    : never;
+};
+
+/**
+ * The settled result of an async handler map — the union of every handler's awaited return type.
+ */
+export type AsyncResult<Handlers> = {
+  [K in keyof Handlers]: Handlers[K] extends (...args: any[]) => infer R
+    ? Awaited<R>
+    : never;
+}[keyof Handlers];
+
+/**
+ * An `AbortSignal`, typed by the members dismatch uses so the DOM lib is not required. With
+ * the DOM or Node types loaded, it is the global `AbortSignal`.
+ */
+export type AbortSignalLike = typeof globalThis extends {
+  AbortSignal: { prototype: infer Signal };
+}
+  ? Signal
+  : {
+      readonly aborted: boolean;
+      readonly reason: any;
+      addEventListener(type: 'abort', listener: () => void): void;
+      removeEventListener(type: 'abort', listener: () => void): void;
+    };
+
+/** Options accepted by the async matchers. */
+export type AsyncOptions = {
+  /** Aborts the handler; the returned Promise rejects with the signal's reason. */
+  signal?: AbortSignalLike;
+  /** Milliseconds after which the handler is aborted and the Promise rejects with a `TimeoutError`. */
+  timeout?: number;
+};
+
+/**
+ * A path of property keys leading to a nested discriminant, e.g. `['payload', 'kind']`.
+ */
+export type DiscriminantPath = readonly [
+  string | number | symbol,
+  ...(string | number | symbol)[],
+];
+
+/**
+ * Where the discriminant lives: a top-level key, or a {@link DiscriminantPath} to a nested one.
+ */
+export type DiscriminantKey = string | number | symbol | DiscriminantPath;
+
+/**
+ * Base type constraint for a value whose discriminant is found at `Discriminant`.
+ * Equivalent to {@link SampleUnion} for a top-level key.
+ *
+ * @example
+ * ```ts
+ * type E = SampleUnionAt<['payload', 'kind']>; // { payload: { kind: any } }
+ * ```
+ */
+export type SampleUnionAt<Discriminant extends DiscriminantKey> =
+  Discriminant extends readonly [
+    infer Head extends string | number | symbol,
+    ...infer Rest extends (string | number | symbol)[],
+  ]
+    ? {
+        [K in Head]: Rest extends [infer Last extends string | number | symbol]
+          ? SampleUnion<Last>
+          : Rest extends DiscriminantPath
+            ? SampleUnionAt<Rest>
+            : any;
+      }
+    : Discriminant extends string | number | symbol
+      ? SampleUnion<Discriminant>
+      : never;
+
+type At<T, Path> = Path extends readonly [infer Head, ...infer Rest]
+  ? T extends any
+    ? Head extends keyof T
+      ? At<T[Head], Rest>
+      : never
+    : never
+  : T;
+
+/**
+ * The discriminant key itself — the last key of a {@link DiscriminantPath}.
+ */
+export type LastKey<Discriminant extends DiscriminantKey> =
+  Discriminant extends readonly [
+    ...any[],
+    infer Last extends string | number | symbol,
+  ]
+    ? Last
+    : Discriminant extends string | number | symbol
+      ? Discriminant
+      : never;
+
+/**
+ * The union that handlers dispatch on: `T` itself for a top-level key, or the
+ * nested object holding the discriminant for a {@link DiscriminantPath}.
+ *
+ * @example
+ * ```ts
+ * type Envelope = { id: string; payload: Model<'created', { at: Date }, 'kind'> | Model<'deleted', {}, 'kind'> };
+ * type Events = UnionAt<Envelope, ['payload', 'kind']>; // the `payload` union
+ * ```
+ */
+export type UnionAt<
+  T,
+  Discriminant extends DiscriminantKey,
+> = Discriminant extends readonly [...infer Parent, any] ? At<T, Parent> : T;
+
+/**
+ * Narrows `T` to the members whose discriminant (found at `Discriminant`) equals `Value`.
+ * For a path, the enclosing objects are narrowed too.
+ */
+export type NarrowAt<
+  T,
+  Discriminant extends DiscriminantKey,
+  Value,
+> = Discriminant extends readonly [infer Head, ...infer Rest]
+  ? Rest extends readonly []
+    ? Extract<T, { [K in Head & (string | number | symbol)]: Value }>
+    : Rest extends DiscriminantPath
+      ? T extends any
+        ? Head extends keyof T
+          ? T & { [K in Head]: NarrowAt<T[Head], Rest, Value> }
+          : never
+        : never
+      : never
+  : Extract<T, { [K in Discriminant & (string | number | symbol)]: Value }>;
+
+/** {@link Matcher} for the union located by `Discriminant`. */
+export type MatcherAt<T, Result, Discriminant extends DiscriminantKey> =
+  UnionAt<T, Discriminant> extends infer U extends SampleUnion<
+    LastKey<Discriminant>
+  >
+    ? Matcher<U, Result, LastKey<Discriminant>>
+    : never;
+
+/** {@link MatcherWithDefault} for the union located by `Discriminant`. */
+export type MatcherWithDefaultAt<
+  T,
+  Result,
+  Discriminant extends DiscriminantKey,
+> =
+  UnionAt<T, Discriminant> extends infer U extends SampleUnion<
+    LastKey<Discriminant>
+  >
+    ? MatcherWithDefault<U, Result, LastKey<Discriminant>>
+    : never;
+
+/** {@link Mapper} for the union located by `Discriminant`. */
+export type MapperAt<T, Discriminant extends DiscriminantKey> =
+  UnionAt<T, Discriminant> extends infer U extends SampleUnion<
+    LastKey<Discriminant>
+  >
+    ? Mapper<U, LastKey<Discriminant>>
+    : never;
+
+/** {@link MapperAll} for the union located by `Discriminant`. */
+export type MapperAllAt<T, Discriminant extends DiscriminantKey> =
+  UnionAt<T, Discriminant> extends infer U extends SampleUnion<
+    LastKey<Discriminant>
+  >
+    ? MapperAll<U, LastKey<Discriminant>>
+    : never;
+
+/** {@link DataMapper} for the union located by `Discriminant`. */
+export type DataMapperAt<T, Discriminant extends DiscriminantKey> =
+  UnionAt<T, Discriminant> extends infer U extends SampleUnion<
+    LastKey<Discriminant>
+  >
+    ? DataMapper<U, LastKey<Discriminant>>
+    : never;
+
+/** {@link DataMapperAll} for the union located by `Discriminant`. */
+export type DataMapperAllAt<T, Discriminant extends DiscriminantKey> =
+  UnionAt<T, Discriminant> extends infer U extends SampleUnion<
+    LastKey<Discriminant>
+  >
+    ? DataMapperAll<U, LastKey<Discriminant>>
+    : never;
+
+/** {@link AsyncMatcher} for the union located by `Discriminant`. */
+export type AsyncMatcherAt<T, Discriminant extends DiscriminantKey> =
+  UnionAt<T, Discriminant> extends infer U extends SampleUnion<
+    LastKey<Discriminant>
+  >
+    ? AsyncMatcher<U, LastKey<Discriminant>>
+    : never;
+
+/** {@link AsyncMapper} for the union located by `Discriminant`. */
+export type AsyncMapperAt<T, Discriminant extends DiscriminantKey> =
+  UnionAt<T, Discriminant> extends infer U extends SampleUnion<
+    LastKey<Discriminant>
+  >
+    ? AsyncMapper<U, LastKey<Discriminant>>
+    : never;
+
+/**
+ * Every discriminant value of `T`, read at `Discriminant`.
+ *
+ * @example
+ * ```ts
+ * type V = DiscriminantValue<Shape>;                        // 'circle' | 'rectangle'
+ * type E = DiscriminantValue<Envelope, ['payload', 'kind']>; // 'created' | 'deleted'
+ * ```
+ */
+export type DiscriminantValue<
+  T,
+  Discriminant extends DiscriminantKey = 'type',
+> =
+  UnionAt<T, Discriminant> extends infer U
+    ? U extends any
+      ? LastKey<Discriminant> extends keyof U
+        ? U[LastKey<Discriminant>]
+        : never
+      : never
+    : never;
+
+type Returnable =
+  | string
+  | number
+  | boolean
+  | symbol
+  | bigint
+  | null
+  | undefined
+  | void
+  | object;
+
+/**
+ * Any value. Listing `Literal` for the top-level properties keeps them from widening, so a
+ * returned `{ type: 'done' }` stays a variant instead of becoming `{ type: string }`.
+ */
+type Returned<Literal> = { [key: string]: Literal | Returnable } | Returnable;
+
+/**
+ * The return types a {@link MapperTo} map may have, by handler key — one for every variant of
+ * the union located by `Discriminant`. Use `Partial<…>` for maps that may skip variants.
+ */
+export type MappedResults<
+  T,
+  Discriminant extends DiscriminantKey,
+  Literal = DiscriminantLiteral,
+> = {
+  [K in DiscriminantValue<T, Discriminant> as HandlerKey<K>]: Returned<Literal>;
+};
+
+type VariantFor<T, Discriminant extends DiscriminantKey, Key> =
+  UnionAt<T, Discriminant> extends infer U
+    ? U extends any
+      ? Key extends HandlerKey<U[LastKey<Discriminant> & keyof U]>
+        ? U
+        : never
+      : never
+    : never;
+
+/**
+ * Transformation map whose handlers may return a different type than the variant they
+ * receive. `Results` holds each handler's return type by handler key; it is inferred from
+ * the handlers by {@link mapTo} and {@link mapAllTo}.
+ *
+ * @example
+ * ```ts
+ * const toDTO: MapperTo<Shape, { circle: CircleDTO; rectangle: RectangleDTO }, 'type'> = {
+ *   circle: ({ radius }) => ({ kind: 'circle', r: radius }),
+ *   rectangle: ({ width, height }) => ({ kind: 'rectangle', w: width, h: height }),
+ * };
+ * ```
+ */
+export type MapperTo<T, Results, Discriminant extends DiscriminantKey> = {
+  [K in keyof Results]: K extends HandlerKey<DiscriminantValue<T, Discriminant>>
+    ? (input: VariantFor<T, Discriminant, K>) => Results[K]
+    : never;
+};
+
+type ParentPath<Discriminant extends DiscriminantKey> =
+  Discriminant extends readonly [...infer Parent, any] ? Parent : [];
+
+type PutAt<T, Path, Value> = Path extends readonly [infer Head, ...infer Rest]
+  ? T extends any
+    ? { [K in keyof T]: K extends Head ? PutAt<T[K], Rest, Value> : T[K] }
+    : never
+  : Value;
+
+/**
+ * The result of a {@link MapperTo} map: the handlers' return types — in place of the nested
+ * union for a {@link DiscriminantPath} — and the variants without a handler, unchanged.
+ *
+ * @example
+ * ```ts
+ * type R = MappedTo<Shape, { circle: CircleDTO }, 'type'>; // CircleDTO | Rectangle
+ * ```
+ */
+export type MappedTo<
+  T,
+  Results,
+  Discriminant extends DiscriminantKey = 'type',
+> =
+  | ([keyof Results] extends [never]
+      ? never
+      : PutAt<T, ParentPath<Discriminant>, Results[keyof Results]>)
+  | NarrowAt<
+      T,
+      Discriminant,
+      DiscriminantValue<T, Discriminant> extends infer Value
+        ? Value extends any
+          ? HandlerKey<Value> extends keyof Results
+            ? never
+            : Value
+          : never
+        : never
+    >;
+
+/**
+ * One discriminant key (or path) per element of a tuple of unions.
+ */
+export type DiscriminantKeys<T extends readonly unknown[]> = {
+  readonly [I in keyof T]: DiscriminantKey;
+};
+
+type KeyPart<Value> = Value extends string | number | boolean
+  ? `${Value}`
+  : never;
+
+type TupleValues<T extends readonly unknown[], Discriminants> = {
+  [I in keyof T]: I extends keyof Discriminants
+    ? Discriminants[I] extends DiscriminantKey
+      ? KeyPart<DiscriminantValue<T[I], Discriminants[I]>>
+      : never
+    : never;
+};
+
+type JoinKey<Parts> = Parts extends readonly [infer Head extends string]
+  ? Head
+  : Parts extends readonly [
+        infer Head extends string,
+        ...infer Rest extends readonly string[],
+      ]
+    ? `${Head}:${JoinKey<Rest>}`
+    : never;
+
+type SplitKey<Key> = Key extends `${infer Head}:${infer Rest}`
+  ? [Head, ...SplitKey<Rest>]
+  : [Key];
+
+type Combinations<Values> = Values extends readonly [infer Head, ...infer Rest]
+  ? Head extends any
+    ? [Head, ...Combinations<Rest>]
+    : never
+  : [];
+
+type Wildcards<Parts> = { [I in keyof Parts]: Parts[I] | '_' };
+
+/**
+ * Every handler key accepted by {@link MatcherN}: one discriminant value (or the `_` wildcard)
+ * per tuple element, joined with `:`.
+ *
+ * @example
+ * ```ts
+ * type K = PatternKey<[Light, Event], ['state', 'type']>;
+ * // 'red:timer' | 'red:_' | '_:timer' | '_:_' | ...
+ * ```
+ */
+export type PatternKey<
+  T extends readonly unknown[],
+  Discriminants extends DiscriminantKeys<T>,
+> = JoinKey<Wildcards<TupleValues<T, Discriminants>>>;
+
+type ValueOfPart<Value, Part> = Value extends any
+  ? KeyPart<Value> extends Part
+    ? Value
+    : never
+  : never;
+
+type NarrowTuple<T extends readonly unknown[], Discriminants, Parts> = {
+  [I in keyof T]: I extends keyof Parts & keyof Discriminants
+    ? Parts[I] extends '_'
+      ? T[I]
+      : Discriminants[I] extends DiscriminantKey
+        ? NarrowAt<
+            T[I],
+            Discriminants[I],
+            ValueOfPart<DiscriminantValue<T[I], Discriminants[I]>, Parts[I]>
+          >
+        : never
+    : T[I];
+};
+
+/**
+ * Handler map for {@link matchN}: keys are combinations of variants (see {@link PatternKey}),
+ * and each handler receives the tuple elements narrowed to that combination.
+ */
+export type MatcherN<
+  T extends readonly unknown[],
+  Discriminants extends DiscriminantKeys<T>,
+> = {
+  [K in PatternKey<T, Discriminants>]?: (
+    ...inputs: NarrowTuple<T, Discriminants, SplitKey<K>>
+  ) => unknown;
+};
+
+/**
+ * The variant combinations not covered by any key of `Handlers`, joined with `:`.
+ * `never` when the handler map is exhaustive.
+ */
+export type UncoveredCombinations<
+  T extends readonly unknown[],
+  Discriminants extends DiscriminantKeys<T>,
+  Handlers,
+> =
+  Combinations<TupleValues<T, Discriminants>> extends infer Combination
+    ? Combination extends readonly string[]
+      ? Extract<keyof Handlers, JoinKey<Wildcards<Combination>>> extends never
+        ? JoinKey<Combination>
+        : never
+      : never
+    : never;
+
+/**
+ * `Handlers`, with every uncovered combination added as a required key and every unknown key
+ * rejected — so an incomplete or misspelled {@link MatcherN} fails to compile at the call site.
+ */
+export type ExhaustiveMatcherN<
+  T extends readonly unknown[],
+  Discriminants extends DiscriminantKeys<T>,
+  Handlers,
+> = Handlers &
+  Required<
+    Pick<
+      MatcherN<T, Discriminants>,
+      UncoveredCombinations<T, Discriminants, Handlers> &
+        PatternKey<T, Discriminants>
+    >
+  > & {
+    [K in Exclude<keyof Handlers, PatternKey<T, Discriminants>>]: never;
+  };
+
+/**
+ * The result of a {@link MatcherN} — the union of every handler's return type.
+ */
+export type MatcherNResult<Handlers> = {
+  [K in keyof Handlers]: Handlers[K] extends (...args: any[]) => infer R
+    ? R
+    : never;
+}[keyof Handlers];
+
+/**
+ * One case of a guarded handler: a predicate and the handler that runs when it passes.
+ * Build cases with `when` to have type-guard predicates narrow the handler's input.
+ */
+export type GuardedCase<Input, Result> = readonly [
+  predicate: (input: Input) => boolean,
+  handler: (input: Input) => Result,
+];
+
+/**
+ * Named groups of variants, keyed by group name. Declare them once and reuse them with
+ * `matchGroups`.
+ *
+ * @example
+ * ```ts
+ * const outline = {
+ *   round: ['circle', 'ellipse'],
+ *   angular: ['square', 'triangle'],
+ * } as const satisfies VariantGroups<Shape>;
+ * ```
+ */
+export type VariantGroups<T, Discriminant extends DiscriminantKey = 'type'> = {
+  readonly [group: string]: readonly DiscriminantValue<T, Discriminant>[];
+};
+
+type VariantOf<T, Discriminant extends DiscriminantKey, Value> = NarrowAt<
+  UnionAt<T, Discriminant>,
+  LastKey<Discriminant>,
+  Value
+>;
+
+/**
+ * Handler map for `matchGroups`. A handler keyed by a group name receives the union of the
+ * group's variants; a handler keyed by a variant receives that variant.
+ */
+export type GroupMatcher<
+  T,
+  Groups extends VariantGroups<T, Discriminant>,
+  Discriminant extends DiscriminantKey,
+> = {
+  [G in keyof Groups]?: (
+    input: VariantOf<T, Discriminant, Groups[G][number]>,
+  ) => unknown;
+} & {
+  [K in DiscriminantValue<T, Discriminant> as HandlerKey<K>]?: (
+    input: VariantOf<T, Discriminant, K>,
+  ) => unknown;
+};
+
+type RequiredKeys<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? never : K;
+}[keyof T];
+
+type CoveringKeys<Groups, Keys, Value> =
+  | (HandlerKey<Value> & Keys)
+  | {
+      [G in keyof Groups & Keys]: Groups[G] extends readonly unknown[]
+        ? Value extends Groups[G][number]
+          ? G
+          : never
+        : never;
+    }[keyof Groups & Keys];
+
+type IsSingle<U, All = U> = [U] extends [never]
+  ? false
+  : U extends any
+    ? [Exclude<All, U>] extends [never]
+      ? true
+      : false
+    : never;
+
+type UncoveredVariants<
+  T,
+  Groups,
+  Discriminant extends DiscriminantKey,
+  Handlers,
+> =
+  DiscriminantValue<T, Discriminant> extends infer Value
+    ? Value extends any
+      ? [CoveringKeys<Groups, keyof Handlers, Value>] extends [never]
+        ? HandlerKey<Value>
+        : never
+      : never
+    : never;
+
+type OverlappingKeys<
+  T,
+  Groups,
+  Discriminant extends DiscriminantKey,
+  Handlers,
+> =
+  DiscriminantValue<T, Discriminant> extends infer Value
+    ? Value extends any
+      ? false extends IsSingle<
+          CoveringKeys<Groups, RequiredKeys<Handlers>, Value>
+        >
+        ? CoveringKeys<Groups, RequiredKeys<Handlers>, Value>
+        : never
+      : never
+    : never;
+
+/**
+ * `Handlers`, checked to cover each variant exactly once: uncovered variants become required
+ * keys, and keys that cover an already covered variant or match no group or variant are rejected.
+ */
+export type ExhaustiveGroupMatcher<
+  T,
+  Groups extends VariantGroups<T, Discriminant>,
+  Discriminant extends DiscriminantKey,
+  Handlers,
+> = Handlers &
+  Required<
+    Pick<
+      GroupMatcher<T, Groups, Discriminant>,
+      UncoveredVariants<T, Groups, Discriminant, Handlers> &
+        keyof GroupMatcher<T, Groups, Discriminant>
+    >
+  > & {
+    [
+      K in Exclude<keyof Handlers, keyof GroupMatcher<T, Groups, Discriminant>>
+    ]: never;
+  } & {
+    [K in OverlappingKeys<T, Groups, Discriminant, Handlers>]: {
+      readonly 'covers a variant that another handler covers': K;
+    };
+  };
+
+/**
+ * The elements of an array of union values, split by variant. Variants that do not occur
+ * have no key.
+ *
+ * @example
+ * ```ts
+ * type P = VariantPartition<Shape>;
+ * // { circle?: Circle[]; rectangle?: Rectangle[] }
+ * ```
+ */
+export type VariantPartition<
+  T,
+  Discriminant extends DiscriminantKey = 'type',
+> = {
+  [K in DiscriminantValue<T, Discriminant> as HandlerKey<K>]?: (T &
+    NarrowAt<T, Discriminant, K>)[];
+};
+
+/**
+ * How often each variant occurs in an array of union values. Variants that do not occur
+ * have no key.
+ */
+export type VariantCounts<T, Discriminant extends DiscriminantKey = 'type'> = {
+  [K in DiscriminantValue<T, Discriminant> as HandlerKey<K>]?: number;
+};
+
+/**
+ * Transition table of a machine built with `createMachine`: one row per state, one entry per
+ * event. An entry returns the next state, or is `null` to ignore the event in that state.
+ */
+export type Transitions<
+  State,
+  Event,
+  StateDiscriminant extends DiscriminantKey = 'type',
+  EventDiscriminant extends DiscriminantKey = 'type',
+> = {
+  [K in DiscriminantValue<State, StateDiscriminant> as HandlerKey<K>]: {
+    [V in DiscriminantValue<Event, EventDiscriminant> as HandlerKey<V>]:
+      | ((
+          state: State & NarrowAt<State, StateDiscriminant, K>,
+          event: Event & NarrowAt<Event, EventDiscriminant, V>,
+        ) => State)
+      | null;
+  };
+};
+
+type EnabledEvents<Row, Event, EventDiscriminant extends DiscriminantKey> =
+  DiscriminantValue<Event, EventDiscriminant> extends infer V
+    ? V extends any
+      ? HandlerKey<V> extends keyof Row
+        ? Row[HandlerKey<V>] extends null
+          ? never
+          : V
+        : never
+      : never
+    : never;
+
+/**
+ * The events `Table` handles in `Current`: entries that are `null` are left out. For a union
+ * of states, the events handled by any of them.
+ */
+export type AllowedEvent<
+  Current,
+  Event,
+  Table,
+  StateDiscriminant extends DiscriminantKey = 'type',
+  EventDiscriminant extends DiscriminantKey = 'type',
+> =
+  DiscriminantValue<Current, StateDiscriminant> extends infer K
+    ? K extends any
+      ? HandlerKey<K> extends keyof Table
+        ? Event &
+            NarrowAt<
+              Event,
+              EventDiscriminant,
+              EnabledEvents<Table[HandlerKey<K>], Event, EventDiscriminant>
+            >
+        : never
+      : never
+    : never;
+
+/** Entry or exit actions of a machine, keyed by state. */
+export type MachineActions<
+  State,
+  Event,
+  StateDiscriminant extends DiscriminantKey = 'type',
+> = {
+  [K in DiscriminantValue<State, StateDiscriminant> as HandlerKey<K>]?: (
+    state: State & NarrowAt<State, StateDiscriminant, K>,
+    event: Event,
+  ) => void;
+};
+
+/** Called after every transition that was not ignored. */
+export type MachineListener<State, Event> = (
+  next: State,
+  previous: State,
+  event: Event,
+) => void;
+
+/** Configuration of a machine built with `createMachine`. */
+export type MachineConfig<
+  State,
+  Event,
+  Table,
+  StateDiscriminant extends DiscriminantKey = 'type',
+> = {
+  /** The next state for every state and event, or `null` to ignore the event. */
+  transitions: Table;
+  /** Run when a transition enters a state of a different variant. */
+  entry?: MachineActions<State, Event, StateDiscriminant>;
+  /** Run when a transition leaves a state for one of a different variant. */
+  exit?: MachineActions<State, Event, StateDiscriminant>;
+};
+
+/** A finite state machine over a state union and an event union, built with `createMachine`. */
+export type Machine<
+  State,
+  Event,
+  Table,
+  StateDiscriminant extends DiscriminantKey = 'type',
+  EventDiscriminant extends DiscriminantKey = 'type',
+> = {
+  /** The transition table the machine was built with. */
+  readonly transitions: Table;
+  /**
+   * Returns the state that `event` leads to from `state`, running exit and entry actions and
+   * notifying listeners. Only events handled in `state` are accepted.
+   */
+  transition<Current extends State>(
+    state: Current,
+    event: AllowedEvent<
+      Current,
+      Event,
+      Table,
+      StateDiscriminant,
+      EventDiscriminant
+    >,
+  ): State;
+  /** Whether `event` is handled in `state`. Narrows `event` to the events `transition` accepts. */
+  can<Current extends State>(
+    state: Current,
+    event: Event,
+  ): event is AllowedEvent<
+    Current,
+    Event,
+    Table,
+    StateDiscriminant,
+    EventDiscriminant
+  >;
+  /** Registers a listener called after every transition. Returns a function that removes it. */
+  subscribe(listener: MachineListener<State, Event>): () => void;
+};
+
+/**
+ * A Redux-compatible reducer: called with `undefined` it starts from its initial state.
+ * Actions it has no handler for return the state unchanged.
+ */
+export type Reducer<State, Action> = (
+  state: State | undefined,
+  action: Action,
+) => State;
+
+/** Exhaustive handler map for `createReducer`: the next state for every action variant. */
+export type ReducerHandlers<
+  State,
+  Action,
+  Discriminant extends DiscriminantKey = 'type',
+> = {
+  [K in DiscriminantValue<Action, Discriminant> as HandlerKey<K>]: (
+    state: State,
+    action: Action & NarrowAt<Action, Discriminant, K>,
+  ) => State;
+};
+
+/** The state of the reducer built by `combineReducers` from `Reducers`. */
+export type CombinedState<Reducers> = {
+  [K in keyof Reducers]: Reducers[K] extends Reducer<infer State, any>
+    ? State
+    : never;
+};
+
+/** Every action handled by one of `Reducers`. */
+export type CombinedAction<Reducers> = {
+  [K in keyof Reducers]: Reducers[K] extends Reducer<any, infer Action>
+    ? Action
+    : never;
+}[keyof Reducers];
+
+/**
+ * What an emitter subscription listens to: a discriminant value, or a pattern ending in `*`
+ * that matches every string value starting with the text before it (`'*'` matches all).
+ */
+export type EventPattern<Event, Discriminant extends DiscriminantKey = 'type'> =
+  DiscriminantValue<Event, Discriminant> | `${string}*`;
+
+/** The events matched by `Pattern`, narrowed. */
+export type PatternEvent<
+  Event,
+  Discriminant extends DiscriminantKey,
+  Pattern,
+> = Pattern extends `${infer Prefix}*`
+  ? Event &
+      NarrowAt<
+        Event,
+        Discriminant,
+        Extract<DiscriminantValue<Event, Discriminant>, `${Prefix}${string}`>
+      >
+  : Event & NarrowAt<Event, Discriminant, Pattern>;
+
+/** A typed event emitter for a union of events, built with `createUnionEmitter`. */
+export type UnionEmitter<
+  Event,
+  Discriminant extends DiscriminantKey = 'type',
+> = {
+  /** Calls `handler` with every emitted event matching `pattern`. Returns a function that unsubscribes. */
+  on<const Pattern extends EventPattern<Event, Discriminant>>(
+    pattern: Pattern,
+    handler: (event: PatternEvent<Event, Discriminant, Pattern>) => void,
+  ): () => void;
+  /** Like `on`, but unsubscribes after the first matching event. */
+  once<const Pattern extends EventPattern<Event, Discriminant>>(
+    pattern: Pattern,
+    handler: (event: PatternEvent<Event, Discriminant, Pattern>) => void,
+  ): () => void;
+  /** Removes a handler registered with `on` or `once` for `pattern`. */
+  off<const Pattern extends EventPattern<Event, Discriminant>>(
+    pattern: Pattern,
+    handler: (event: PatternEvent<Event, Discriminant, Pattern>) => void,
+  ): void;
+  /** Calls `handler` with every emitted event. Returns a function that unsubscribes. */
+  onAny(handler: (event: Event) => void): () => void;
+  /** Calls the handlers subscribed to `event`, in subscription order. */
+  emit(event: Event): void;
+  /**
+   * Resolves with the next event matching `pattern` that passes `predicate`. Rejects with the
+   * signal's reason when `signal` aborts, or with a `TimeoutError` once `timeout` elapses.
+   */
+  waitFor<const Pattern extends EventPattern<Event, Discriminant>>(
+    pattern: Pattern,
+    predicate?: (event: PatternEvent<Event, Discriminant, Pattern>) => boolean,
+    options?: AsyncOptions,
+  ): Promise<PatternEvent<Event, Discriminant, Pattern>>;
+};
+
+/**
+ * `T` in adjacently tagged form: the discriminant value under `Tag` and the rest of the
+ * variant under `Content`.
+ *
+ * @example
+ * ```ts
+ * type Wire = AdjacentlyTagged<Shape, 'type', 't', 'c'>;
+ * // { t: 'circle'; c: { radius: number } } | { t: 'rectangle'; c: { width: number; height: number } }
+ * ```
+ */
+export type AdjacentlyTagged<
+  T,
+  Discriminant extends string | number | symbol = 'type',
+  Tag extends string | number | symbol = 't',
+  Content extends string | number | symbol = 'c',
+> = T extends any
+  ? {
+      [K in Tag | Content]: K extends Tag
+        ? T[Discriminant & keyof T]
+        : Omit<T, Discriminant>;
+    }
+  : never;
+
+/**
+ * `T` in externally tagged form: an object with the discriminant value as its only key and
+ * the rest of the variant as its value.
+ *
+ * @example
+ * ```ts
+ * type Wire = ExternallyTagged<Shape>;
+ * // { circle: { radius: number } } | { rectangle: { width: number; height: number } }
+ * ```
+ */
+export type ExternallyTagged<
+  T,
+  Discriminant extends string | number | symbol = 'type',
+> = T extends any
+  ? {
+      [K in HandlerKey<T[Discriminant & keyof T]> & (string | number)]: Omit<
+        T,
+        Discriminant
+      >;
+    }
+  : never;
+
+/**
+ * `T` internally tagged under `Key` instead of `Discriminant`.
+ *
+ * @example
+ * ```ts
+ * type Wire = InternallyTagged<Shape, 'type', 'kind'>;
+ * // { kind: 'circle'; radius: number } | { kind: 'rectangle'; width: number; height: number }
+ * ```
+ */
+export type InternallyTagged<
+  T,
+  Discriminant extends string | number | symbol = 'type',
+  Key extends string | number | symbol = 'type',
+> = T extends any
+  ? Omit<T, Discriminant> & { [K in Key]: T[Discriminant & keyof T] }
+  : never;
+
+/** Converts a union to and from one of its wire representations. */
+export type TaggingCodec<T, Wire> = {
+  /** Converts a union value to its wire representation. */
+  encode(value: T): Wire;
+  /** Converts a wire representation back to the union value. */
+  decode(input: Wire): T;
+};
+
+/** Codecs between a union and its wire representations, built with `tagging`. */
+export type Tagging<
+  T,
+  Discriminant extends string | number | symbol = 'type',
+> = {
+  /**
+   * Adjacently tagged form — `{ t: 'circle', c: { radius: 1 } }` — as produced by serde's
+   * `#[serde(tag = "t", content = "c")]`. A missing or `null` content decodes to a variant
+   * without data.
+   */
+  adjacent<
+    const Tag extends string | number | symbol = 't',
+    const Content extends string | number | symbol = 'c',
+  >(
+    tag?: Tag,
+    content?: Content,
+  ): TaggingCodec<T, AdjacentlyTagged<T, Discriminant, Tag, Content>>;
+  /**
+   * Externally tagged form — `{ circle: { radius: 1 } }` — serde's default. `decode` also
+   * accepts a bare string for a variant without data, the way serde writes unit variants.
+   * Keys decode to the variant listed under the same name: `'404'` decodes to `404` when
+   * `404` is one of the `variants` given to {@link tagging}, and stays a string otherwise.
+   */
+  external(): TaggingCodec<T, ExternallyTagged<T, Discriminant>>;
+  /** Internally tagged form under another key — e.g. the `kind` a service sends. */
+  internal<const Key extends string | number | symbol>(
+    key: Key,
+  ): TaggingCodec<T, InternallyTagged<T, Discriminant, Key>>;
+};
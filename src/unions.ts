@@ -1,36 +1,75 @@
-import { clearStackTrace } from './helpers';
 import {
-  Mapper,
-  MapperAll,
-  Matcher,
-  MatcherWithDefault,
-  SampleUnion,
+  errorDetails,
+  InvalidUnionError,
+  UnhandledVariantError,
+} from './errors';
+import {
+  clearStackTrace,
+  isDiscriminantValue,
+  locate,
+  replaceAt,
+} from './helpers';
+import { compile } from './compile';
+import { mapAsync, matchAsync } from './async';
+import {
+  countByVariant,
+  everyVariant,
+  findVariant,
+  groupBy,
+  mapVariants,
+  partitionByVariant,
+} from './collections';
+import {
+  AsyncMapperAt,
+  AsyncMatcherAt,
+  AsyncOptions,
+  AsyncResult,
+  DataMapperAllAt,
+  DataMapperAt,
+  DiscriminantKey,
+  DiscriminantLiteral,
+  DiscriminantPath,
+  DiscriminantValue,
+  DefaultDiscriminant,
+  MappedResults,
+  MappedTo,
+  MapperAllAt,
+  MapperAt,
+  MapperTo,
+  MatcherAt,
+  MatcherWithDefaultAt,
+  NarrowAt,
+  SampleUnionAt,
   TakeDiscriminant,
 } from './types';
 
 /**
- * Checks whether a value is a valid discriminated union — a non-null object with a string discriminant property.
+ * Checks whether a value is a valid discriminated union — a non-null object whose discriminant property
+ * holds a string, number, boolean or symbol.
  * Useful at system boundaries like API responses or form data.
  *
  * @param input - The value to check
- * @param discriminant - The property to look for. Defaults to `'type'`.
- * @returns `true` if `input` is an object with a string value at the discriminant key
+ * @param discriminant - The property to look for, or a path to a nested one. Defaults to `'type'`.
+ * @returns `true` if `input` is an object with a string, number, boolean or symbol value at the discriminant key
  *
  * @example
  * ```ts
- * isUnion({ type: 'circle', radius: 5 }); // true
- * isUnion({ name: 'not a union' });        // false
- * isUnion({ status: 'ok' }, 'status');     // true
+ * isUnion({ type: 'circle', radius: 5 });                       // true
+ * isUnion({ name: 'not a union' });                              // false
+ * isUnion({ status: 'ok' }, 'status');                           // true
+ * isUnion({ ok: false, error: 'boom' }, 'ok');                    // true
+ * isUnion({ id: 1, payload: { kind: 'a' } }, ['payload', 'kind']); // true
  * ```
  */
-export function isUnion<Discriminant extends string | number | symbol>(
+export function isUnion<const Discriminant extends DiscriminantKey>(
   input: any,
   discriminant: Discriminant = 'type' as Discriminant,
-): input is SampleUnion<Discriminant> {
+): input is SampleUnionAt<Discriminant> {
+  const [holder, key] = locate(input, discriminant);
   return (
-    typeof input === 'object' &&
-    input !== null &&
-    typeof input[discriminant] === 'string'
+    typeof holder === 'object' &&
+    holder !== null &&
+    isDiscriminantValue(holder[key])
   );
 }
 
@@ -39,7 +78,7 @@ export function isUnion<Discriminant extends string | number | symbol>(
  *
  * @param union - The discriminated union value to check
  * @param type - The variant value to match against
- * @param discriminant - The property used to tell variants apart. Defaults to `'type'`.
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
  * @returns `true` if the discriminant property equals `type`, narrowing to that variant
  *
  * @example
@@ -47,37 +86,140 @@ export function isUnion<Discriminant extends string | number | symbol>(
  * if (is(shape, 'circle')) {
  *   console.log(shape.radius); // TypeScript knows it's a circle
  * }
+ *
+ * if (is(message, 'created', ['payload', 'kind'])) {
+ *   console.log(message.payload.createdAt); // the envelope is narrowed too
+ * }
  * ```
  */
 export function is<
-  T extends { [K in Discriminant]: string },
-  U extends T[Discriminant],
-  Discriminant extends string | number | symbol = 'type',
+  T extends SampleUnionAt<Discriminant>,
+  U extends DiscriminantValue<T, Discriminant> & DiscriminantLiteral,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
 >(
   union: T,
   type: U,
   discriminant: Discriminant = 'type' as Discriminant,
-): union is Extract<T, { [K in Discriminant]: U }> {
-  return union[discriminant] === type;
+): union is T & NarrowAt<T, Discriminant, U> {
+  const [holder, key] = locate(union, discriminant);
+  return holder?.[key] === type;
+}
+
+/**
+ * Type guard that narrows a discriminated union to any of several variants.
+ *
+ * @param union - The discriminated union value to check
+ * @param types - The variant values to match against
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns `true` if the discriminant property equals one of `types`, narrowing to those variants
+ *
+ * @example
+ * ```ts
+ * if (isOneOf(shape, ['circle', 'ellipse'])) {
+ *   console.log(shape.type); // 'circle' | 'ellipse'
+ * }
+ * ```
+ */
+export function isOneOf<
+  T extends SampleUnionAt<Discriminant>,
+  const U extends readonly (DiscriminantValue<T, Discriminant> &
+    DiscriminantLiteral)[],
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  union: T,
+  types: U,
+  discriminant: Discriminant = 'type' as Discriminant,
+): union is T & NarrowAt<T, Discriminant, U[number]> {
+  const [holder, key] = locate(union, discriminant);
+  return types.includes(holder?.[key]);
+}
+
+export function lookup<
+  T extends SampleUnionAt<Discriminant>,
+  Result,
+  Discriminant extends DiscriminantKey,
+>(
+  union: T,
+  handlers: Record<string, ((...args: any[]) => Result) | undefined>,
+  discriminant: Discriminant,
+  fallback: (() => Result) | undefined,
+  caller: Function,
+): (...args: any[]) => Result {
+  const [holder, key] = locate(union, discriminant);
+  const fn = handlers[holder[key]];
+  if (fn) return fn;
+  if (fallback) return fallback;
+  throw clearStackTrace(
+    new UnhandledVariantError({
+      ...errorDetails(union, discriminant),
+      handlers: Reflect.ownKeys(handlers).map(String),
+    }),
+    caller,
+  );
 }
 
 function dispatch<
-  T extends SampleUnion<Discriminant>,
+  T extends SampleUnionAt<Discriminant>,
   Result,
-  Discriminant extends string | number | symbol,
+  Discriminant extends DiscriminantKey,
 >(
   union: T,
   handlers: Record<string, ((input: any) => Result) | undefined>,
   discriminant: Discriminant,
   fallback?: () => Result,
 ): Result {
-  const fn = handlers[union[discriminant] as string];
-  if (fn) return fn(union);
-  if (fallback) return fallback();
-  throw new Error('Matcher incomplete!');
+  const [holder] = locate(union, discriminant);
+  return lookup(union, handlers, discriminant, fallback, dispatch)(holder);
+}
+
+/**
+ * Runs the handler for `input`'s variant and puts its result where the variant was. Variants
+ * without a handler are kept when `partial`.
+ */
+function transform(
+  input: any,
+  mapper: object,
+  discriminant: DiscriminantKey,
+  partial: boolean,
+): any {
+  return replaceAt(
+    input,
+    discriminant,
+    dispatch(
+      input,
+      mapper as any,
+      discriminant,
+      partial ? () => locate(input, discriminant)[0] : undefined,
+    ),
+  );
+}
+
+/**
+ * Wraps payload handlers: each receives its variant without the discriminant, and the
+ * original discriminant is put back on the payload it returns.
+ */
+function withDiscriminant(
+  mapper: Record<PropertyKey, unknown>,
+  discriminant: DiscriminantKey,
+) {
+  const key =
+    typeof discriminant === 'object'
+      ? discriminant[discriminant.length - 1]
+      : discriminant;
+  const wrapped: Record<PropertyKey, unknown> = {};
+
+  for (const name of Reflect.ownKeys(mapper)) {
+    const fn = mapper[name];
+    wrapped[name] = typeof fn !== 'function' ? fn : (holder: any) => {
+      const { [key]: value, ...payload } = holder;
+      // Written on both sides of the payload: it stays first, and the payload can't override it
+      return { [key]: value, ...fn(payload), [key]: value };
+    };
+  }
+  return wrapped;
 }
 
-function guard<T>(
+export function guard<T>(
   input: any,
   discriminant: any,
   caller: Function,
@@ -85,20 +227,36 @@ function guard<T>(
 ): T {
   try {
     if (!isUnion(input, discriminant))
-      throw new Error('Data is not of type discriminated union!');
+      throw new InvalidUnionError(errorDetails(input, discriminant));
     return fn();
   } catch (err) {
     throw clearStackTrace(err, caller);
   }
 }
 
+/**
+ * Validates `input` and runs the handler for its variant. Errors start their stack at
+ * `caller`, the handlers-first function the user called.
+ */
+export function fold<R>(
+  input: unknown,
+  discriminant: DiscriminantKey,
+  handlers: Record<string, (variant: any) => R>,
+  caller: Function,
+): R {
+  const handler = guard(input, discriminant, caller, () =>
+    lookup(input as any, handlers, discriminant, undefined, caller),
+  );
+  return handler(input);
+}
+
 /**
  * Partially transforms a discriminated union. Variants without a handler pass through unchanged.
  *
  * @param input - The discriminated union value to transform
- * @param discriminant - The property used to tell variants apart. Defaults to `'type'`.
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
  * @returns A curried function that accepts a partial handler map and returns the (possibly transformed) value
- * @throws {Error} If `input` is not a valid discriminated union
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
  *
  * @example
  * ```ts
@@ -109,15 +267,15 @@ function guard<T>(
  * ```
  */
 export function map<
-  T extends SampleUnion<Discriminant>,
-  Discriminant extends string | number | symbol = 'type',
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
 >(
   input: T,
   discriminant: Discriminant = 'type' as Discriminant,
-): (mapper: Mapper<T, Discriminant>) => T {
+): (mapper: MapperAt<T, Discriminant>) => T {
   return guard(input, discriminant, map, () =>
-    (mapper: Mapper<T, Discriminant>) =>
-      dispatch(input, mapper as any, discriminant, () => input),
+    (mapper: MapperAt<T, Discriminant>) =>
+      transform(input, mapper, discriminant, true),
   );
 }
 
@@ -125,9 +283,10 @@ export function map<
  * Fully transforms a discriminated union. Every variant must have a handler — unlike {@link map}, nothing passes through by default.
  *
  * @param input - The discriminated union value to transform
- * @param discriminant - The property used to tell variants apart. Defaults to `'type'`.
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
  * @returns A curried function that accepts a full handler map and returns the transformed value
- * @throws {Error} If `input` is not a valid discriminated union
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
+ * @throws {UnhandledVariantError} If no handler exists for the variant
  *
  * @example
  * ```ts
@@ -138,15 +297,149 @@ export function map<
  * ```
  */
 export function mapAll<
-  T extends SampleUnion<Discriminant>,
-  Discriminant extends string | number | symbol = 'type',
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
 >(
   input: T,
   discriminant: Discriminant = 'type' as Discriminant,
-): (mapper: MapperAll<T, Discriminant>) => T {
+): (mapper: MapperAllAt<T, Discriminant>) => T {
   return guard(input, discriminant, mapAll, () =>
-    (mapper: MapperAll<T, Discriminant>) =>
-      dispatch(input, mapper as any, discriminant),
+    (mapper: MapperAllAt<T, Discriminant>) =>
+      transform(input, mapper, discriminant, false),
+  );
+}
+
+/**
+ * Partially transforms the payloads of a discriminated union. Handlers receive the variant
+ * without its discriminant and return the new payload; the original discriminant is put back,
+ * so a handler cannot move a value into another variant. Variants without a handler pass
+ * through unchanged.
+ *
+ * @param input - The discriminated union value to transform
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A curried function that accepts a partial payload handler map and returns the (possibly transformed) value
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
+ *
+ * @example
+ * ```ts
+ * const result = mapData(shape)({
+ *   circle: ({ radius }) => ({ radius: radius * 2 }),
+ * });
+ * // { type: 'circle', radius: 10 } — rectangles pass through unchanged
+ * ```
+ */
+export function mapData<
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  input: T,
+  discriminant: Discriminant = 'type' as Discriminant,
+): (mapper: DataMapperAt<T, Discriminant>) => T {
+  return guard(input, discriminant, mapData, () =>
+    (mapper: DataMapperAt<T, Discriminant>) =>
+      transform(input, withDiscriminant(mapper, discriminant), discriminant, true),
+  );
+}
+
+/**
+ * Fully transforms the payloads of a discriminated union. Like {@link mapData}, but every
+ * variant must have a handler.
+ *
+ * @param input - The discriminated union value to transform
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A curried function that accepts a full payload handler map and returns the transformed value
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
+ * @throws {UnhandledVariantError} If no handler exists for the variant
+ *
+ * @example
+ * ```ts
+ * const result = mapAllData(shape)({
+ *   circle: ({ radius }) => ({ radius: Math.abs(radius) }),
+ *   rectangle: ({ width, height }) => ({ width: Math.abs(width), height: Math.abs(height) }),
+ * });
+ * ```
+ */
+export function mapAllData<
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  input: T,
+  discriminant: Discriminant = 'type' as Discriminant,
+): (mapper: DataMapperAllAt<T, Discriminant>) => T {
+  return guard(input, discriminant, mapAllData, () =>
+    (mapper: DataMapperAllAt<T, Discriminant>) =>
+      transform(input, withDiscriminant(mapper, discriminant), discriminant, false),
+  );
+}
+
+/**
+ * Partially transforms a discriminated union into another type. Handlers may return anything;
+ * the result type is the union of their return types and the variants without a handler,
+ * which pass through unchanged.
+ *
+ * @param input - The discriminated union value to transform
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A curried function that accepts a partial handler map and returns the (possibly transformed) value
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
+ *
+ * @example
+ * ```ts
+ * const state = mapTo(rawState)({
+ *   success: ({ data }) => ({ type: 'success', data: toUser(data) }),
+ * });
+ * // FetchState<User> — idle, loading and error pass through
+ * ```
+ */
+export function mapTo<
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  input: T,
+  discriminant: Discriminant = 'type' as Discriminant,
+): <
+  Literal extends DiscriminantLiteral,
+  Results extends Partial<MappedResults<T, Discriminant, Literal>>,
+>(
+  mapper: MapperTo<T, Results, Discriminant>,
+) => MappedTo<T, Results, Discriminant> {
+  return guard(input, discriminant, mapTo, () =>
+    (mapper: object) => transform(input, mapper, discriminant, true),
+  );
+}
+
+/**
+ * Fully transforms a discriminated union into another type. Every variant must have a
+ * handler; the result type is the union of their return types.
+ *
+ * @param input - The discriminated union value to transform
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
+ * @returns A curried function that accepts a full handler map and returns the transformed value
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
+ * @throws {UnhandledVariantError} If no handler exists for the variant
+ *
+ * @example
+ * ```ts
+ * const dto = mapAllTo(shape)({
+ *   circle: ({ radius }) => ({ kind: 'circle', r: radius }),
+ *   rectangle: ({ width, height }) => ({ kind: 'rect', w: width, h: height }),
+ * });
+ * // { kind: 'circle'; r: number } | { kind: 'rect'; w: number; h: number }
+ * ```
+ */
+export function mapAllTo<
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
+>(
+  input: T,
+  discriminant: Discriminant = 'type' as Discriminant,
+): <
+  Literal extends DiscriminantLiteral,
+  Results extends MappedResults<T, Discriminant, Literal>,
+>(
+  mapper: MapperTo<T, Results, Discriminant>,
+) => MappedTo<T, Results, Discriminant> {
+  return guard(input, discriminant, mapAllTo, () =>
+    (mapper: object) => transform(input, mapper, discriminant, false),
   );
 }
 
@@ -155,9 +448,10 @@ export function mapAll<
  * If a new variant is added to the union, TypeScript will error at every unhandled `match` call.
  *
  * @param input - The discriminated union value to match against
- * @param discriminant - The property used to tell variants apart. Defaults to `'type'`.
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
  * @returns A curried function that accepts a handler map and returns the matched handler's result
- * @throws {Error} If `input` is not a valid discriminated union
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
+ * @throws {UnhandledVariantError} If no handler exists for the variant
  *
  * @example
  * ```ts
@@ -168,15 +462,15 @@ export function mapAll<
  * ```
  */
 export function match<
-  T extends SampleUnion<Discriminant>,
-  Discriminant extends string | number | symbol = 'type',
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
 >(
   input: T,
   discriminant: Discriminant = 'type' as Discriminant,
-): <U>(mapper: Matcher<T, U, Discriminant>) => U {
+): <U>(mapper: MatcherAt<T, U, Discriminant>) => U {
   return guard(input, discriminant, match, () =>
-    <U>(matcher: Matcher<T, U, Discriminant>) =>
-      dispatch<T, U, Discriminant>(input, matcher as any, discriminant),
+    <U>(matcher: MatcherAt<T, U, Discriminant>) =>
+      dispatch(input, matcher as any, discriminant),
   );
 }
 
@@ -184,9 +478,9 @@ export function match<
  * Pattern matching with a fallback. Handle specific variants explicitly; `Default` catches the rest.
  *
  * @param input - The discriminated union value to match against
- * @param discriminant - The property used to tell variants apart. Defaults to `'type'`.
+ * @param discriminant - The property used to tell variants apart, or a path to a nested one. Defaults to `'type'`.
  * @returns A curried function that accepts a partial handler map (with required `Default`) and returns the result
- * @throws {Error} If `input` is not a valid discriminated union
+ * @throws {InvalidUnionError} If `input` is not a valid discriminated union
  *
  * @example
  * ```ts
@@ -197,15 +491,15 @@ export function match<
  * ```
  */
 export function matchWithDefault<
-  T extends SampleUnion<Discriminant>,
-  Discriminant extends string | number | symbol = 'type',
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends DiscriminantKey = DefaultDiscriminant<T>,
 >(
   input: T,
   discriminant: Discriminant = 'type' as Discriminant,
-): <U>(matcher: MatcherWithDefault<T, U, Discriminant>) => U {
+): <U>(matcher: MatcherWithDefaultAt<T, U, Discriminant>) => U {
   return guard(input, discriminant, matchWithDefault, () =>
-    <U>(matcher: MatcherWithDefault<T, U, Discriminant>) =>
-      dispatch<T, U, Discriminant>(
+    <U>(matcher: MatcherWithDefaultAt<T, U, Discriminant>) =>
+      dispatch(
         input,
         matcher as any,
         discriminant,
@@ -219,9 +513,12 @@ export function matchWithDefault<
  * Returns an object whose methods follow the reversed-curry shape `(handlers) => (input) => result`,
  * making them composable inside FP `pipe` utilities without wrapper lambdas.
  *
- * @param discriminant - The property used to tell variants apart (e.g. `'type'` or `'kind'`)
- * @returns An object with four methods — `match`, `matchWithDefault`, `map`, `mapAll` —
- *   each accepting handlers first and returning a reusable function that accepts the input value
+ * @param discriminant - The property used to tell variants apart (e.g. `'type'` or `'kind'`), or a path
+ *   to a nested one (e.g. `['payload', 'kind']`). Defaults to `'type'`, and is required for any other key.
+ * @returns An object with the methods `match`, `matchWithDefault`, `map`, `mapAll`, `mapData`, `mapAllData`, `mapTo`, `mapAllTo`,
+ *   `matchAsync`, `mapAsync`, `groupBy`, `findVariant`, `everyVariant` and `mapVariants` — each
+ *   accepting handlers (or a variant) first and returning a reusable function that accepts the
+ *   input value or array — plus `partitionByVariant` and `countByVariant`, which accept the array directly
  *
  * @example
  * ```ts
@@ -239,20 +536,85 @@ export function matchWithDefault<
  * ```
  */
 export function createPipeHandlers<
-  T extends SampleUnion<Discriminant>,
-  Discriminant extends TakeDiscriminant<T> = TakeDiscriminant<T>,
->(discriminant: Discriminant) {
+  T extends SampleUnionAt<Discriminant>,
+  const Discriminant extends TakeDiscriminant<T> | DiscriminantPath | 'type' =
+    'type' extends keyof T ? 'type' : TakeDiscriminant<T>,
+>(
+  // Only `'type'` may be left out: other keys can't be told apart from the type at runtime
+  ...[discriminant = 'type' as Discriminant]: [Discriminant] extends ['type']
+    ? [discriminant?: Discriminant]
+    : [discriminant: Discriminant]
+) {
+  const transformer = (mapper: object, partial: boolean) => {
+    const fn = compile<T, any, Discriminant>(
+      (partial ? { ...mapper, Default: (holder: unknown) => holder } : mapper) as any,
+      discriminant,
+    );
+    return (input: T): any => replaceAt(input, discriminant, fn(input));
+  };
+
   return {
-    match: <U>(handlers: Matcher<T, U, Discriminant>) =>
-      (input: T): U => match(input, discriminant)(handlers),
+    match: <U>(handlers: MatcherAt<T, U, Discriminant>) =>
+      compile<T, U, Discriminant>(handlers, discriminant),
+
+    matchWithDefault: <U>(handlers: MatcherWithDefaultAt<T, U, Discriminant>) =>
+      compile<T, U, Discriminant>(handlers, discriminant),
+
+    map: (handlers: MapperAt<T, Discriminant>): ((input: T) => T) =>
+      transformer(handlers, true),
+
+    mapAll: (handlers: MapperAllAt<T, Discriminant>): ((input: T) => T) =>
+      transformer(handlers, false),
+
+    mapData: (handlers: DataMapperAt<T, Discriminant>): ((input: T) => T) =>
+      transformer(withDiscriminant(handlers, discriminant), true),
+
+    mapAllData: (handlers: DataMapperAllAt<T, Discriminant>): ((input: T) => T) =>
+      transformer(withDiscriminant(handlers, discriminant), false),
+
+    mapTo: <
+      Literal extends DiscriminantLiteral,
+      Results extends Partial<MappedResults<T, Discriminant, Literal>>,
+    >(
+      handlers: MapperTo<T, Results, Discriminant>,
+    ): ((input: T) => MappedTo<T, Results, Discriminant>) =>
+      transformer(handlers, true),
+
+    mapAllTo: <
+      Literal extends DiscriminantLiteral,
+      Results extends MappedResults<T, Discriminant, Literal>,
+    >(
+      handlers: MapperTo<T, Results, Discriminant>,
+    ): ((input: T) => MappedTo<T, Results, Discriminant>) =>
+      transformer(handlers, false),
+
+    matchAsync: <H extends AsyncMatcherAt<T, Discriminant>>(
+      handlers: H,
+      options?: AsyncOptions,
+    ) =>
+      (input: T): Promise<AsyncResult<H>> =>
+        matchAsync(input, discriminant)(handlers, options),
+
+    mapAsync: (handlers: AsyncMapperAt<T, Discriminant>, options?: AsyncOptions) =>
+      (input: T): Promise<T> => mapAsync(input, discriminant)(handlers, options),
+
+    partitionByVariant: (items: readonly T[]) =>
+      partitionByVariant(items, discriminant),
+
+    countByVariant: (items: readonly T[]) =>
+      countByVariant(items, discriminant),
+
+    groupBy: <K extends PropertyKey>(handlers: MatcherAt<T, K, Discriminant>) =>
+      (items: readonly T[]) => groupBy(items, discriminant)(handlers),
 
-    matchWithDefault: <U>(handlers: MatcherWithDefault<T, U, Discriminant>) =>
-      (input: T): U => matchWithDefault(input, discriminant)(handlers),
+    findVariant: <U extends DiscriminantValue<T, Discriminant> & DiscriminantLiteral>(type: U) =>
+      (items: readonly T[]) => findVariant(items, type, discriminant),
 
-    map: (handlers: Mapper<T, Discriminant>) =>
-      (input: T): T => map(input, discriminant)(handlers),
+    everyVariant: <U extends DiscriminantValue<T, Discriminant> & DiscriminantLiteral>(type: U) =>
+      (items: readonly T[]): items is (T & NarrowAt<T, Discriminant, U>)[] =>
+        everyVariant(items, type, discriminant),
 
-    mapAll: (handlers: MapperAll<T, Discriminant>) =>
-      (input: T): T => mapAll(input, discriminant)(handlers),
+    mapVariants: (handlers: MapperAt<T, Discriminant>) =>
+      (items: readonly T[]): readonly T[] => mapVariants(items, discriminant)(handlers),
   };
 }
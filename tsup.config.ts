@@ -1,14 +1,24 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['cjs', 'esm'],
-  dts: true,
-  clean: true,
-  sourcemap: false,
-  outDir: 'lib',
-  splitting: false,
-  treeshake: true,
-  minify: true,
-  target: 'es2020',
-});
+export default defineConfig([
+  {
+    entry: ['src/index.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    clean: true,
+    sourcemap: false,
+    outDir: 'lib',
+    splitting: false,
+    treeshake: true,
+    minify: true,
+    target: 'es2020',
+  },
+  {
+    entry: ['src/cli.ts'],
+    format: ['cjs'],
+    platform: 'node',
+    outDir: 'lib',
+    minify: true,
+    target: 'node18',
+  },
+]);